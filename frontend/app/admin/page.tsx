@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import { AdminConsole } from '@/components/AdminConsole';
+import { HEADER_BUTTON_CLASS, SiteHeader } from '@/components/SiteHeader';
+
+export default function AdminPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 transition-colors duration-300">
+      <SiteHeader subtitle="House Admin">
+        <Link href="/admin/risk" className={HEADER_BUTTON_CLASS}>
+          Risk
+        </Link>
+      </SiteHeader>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">House Admin Console</h2>
+          <p className="text-gray-600 dark:text-gray-300">Manage the bankroll, bet limits and ownership of the contract</p>
+        </div>
+
+        <AdminConsole />
+      </div>
+    </main>
+  );
+}
@@ -1,54 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPublicClient, http } from 'viem';
-import { monadTestnet } from '@/config/chains';
+import { zeroAddress } from 'viem';
+import { publicClient } from '@/config/client';
 import { COIN_FLIP_ADDRESS, COIN_FLIP_ABI } from '@/config/contract';
+import { parseGameId, serializeContractGame } from '@/lib/api/games';
+
+async function fetchGame(rawGameId: unknown) {
+  const gameId = parseGameId(
+    typeof rawGameId === 'number' || typeof rawGameId === 'string' ? String(rawGameId) : null
+  );
+  if (gameId.error !== undefined) {
+    return NextResponse.json({ error: gameId.error }, { status: 400 });
+  }
 
-const publicClient = createPublicClient({
-  chain: monadTestnet,
-  transport: http('https://testnet-rpc.monad.xyz'),
-});
-
-export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const gameId = searchParams.get('gameId');
-
-    if (!gameId) {
-      return NextResponse.json({ error: 'Game ID is required' }, { status: 400 });
-    }
-
     const game = await publicClient.readContract({
       address: COIN_FLIP_ADDRESS,
       abi: COIN_FLIP_ABI,
       functionName: 'getGame',
-      args: [BigInt(gameId)],
+      args: [gameId.value],
     });
 
-    return NextResponse.json({ game });
+    if (game.player === zeroAddress) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ game: serializeContractGame(gameId.value, game) });
   } catch (error) {
     console.error('Error fetching game:', error);
     return NextResponse.json({ error: 'Failed to fetch game' }, { status: 500 });
   }
 }
 
+export async function GET(request: NextRequest) {
+  return fetchGame(request.nextUrl.searchParams.get('gameId'));
+}
+
 export async function POST(request: NextRequest) {
+  let body: { gameId?: unknown };
   try {
-    const { gameId } = await request.json();
-
-    if (!gameId) {
-      return NextResponse.json({ error: 'Game ID is required' }, { status: 400 });
-    }
-
-    const game = await publicClient.readContract({
-      address: COIN_FLIP_ADDRESS,
-      abi: COIN_FLIP_ABI,
-      functionName: 'getGame',
-      args: [BigInt(gameId)],
-    });
-
-    return NextResponse.json(game);
-  } catch (error) {
-    console.error('Error fetching game:', error);
-    return NextResponse.json({ error: 'Failed to fetch game' }, { status: 500 });
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
   }
+
+  return fetchGame(body?.gameId);
 }
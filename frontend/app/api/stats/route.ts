@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getIndexer, READ_MAX_AGE } from '@/lib/indexer';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const summary = await getIndexer().getSummary({ maxAge: READ_MAX_AGE });
+
+    // The tag covers the aggregates but not lastBlock, so polling clients get a 304 until a game changes
+    const aggregates = JSON.stringify({ ...summary, lastBlock: undefined });
+    const etag = `W/"${createHash('sha1').update(aggregates).digest('hex')}"`;
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    return NextResponse.json({ summary }, { headers: { ETag: etag, 'Cache-Control': 'no-cache' } });
+  } catch (error) {
+    console.error('Error fetching stats:', error);
+    return NextResponse.json({ error: 'Failed to fetch stats' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { formatEvent, isAfter, logEventId, parseEventId, replayLogs, type EventPosition } from '@/lib/api/events';
+import { getIndexer, READ_MAX_AGE, type IndexedLog, type IndexerUpdate } from '@/lib/indexer';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 15000;
+// Reconnect delay suggested to EventSource
+const RETRY_MS = 3000;
+
+export async function GET(request: NextRequest) {
+  const cursor = parseEventId(request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId'));
+  const indexer = getIndexer();
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Updates that arrive while the replay is prepared are held back, then sent in order
+      let lastSent: EventPosition | null = null;
+      let pending: IndexerUpdate[] | null = [];
+      const sendLogs = (logs: IndexedLog[]) => {
+        for (const log of logs) {
+          if (lastSent && !isAfter(log, lastSent)) continue;
+          send(formatEvent(log.event, log, logEventId(log)));
+          lastSent = log;
+        }
+      };
+      const handle = (update: IndexerUpdate) => {
+        if (update.type === 'logs') {
+          sendLogs(update.logs);
+        } else {
+          // Logs already sent may be gone; the client reloads and continues from the new head
+          lastSent = { blockNumber: update.lastBlock, logIndex: Number.MAX_SAFE_INTEGER };
+          send(formatEvent('reset', { lastBlock: update.lastBlock }, `${update.lastBlock}-${Number.MAX_SAFE_INTEGER}`));
+        }
+      };
+
+      const unsubscribe = indexer.subscribe((update) => (pending ? pending.push(update) : handle(update)));
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      try {
+        const state = await indexer.sync({ maxAge: READ_MAX_AGE });
+        const head = state.logs[state.logs.length - 1];
+        const headPosition = head ?? { blockNumber: state.lastBlock, logIndex: Number.MAX_SAFE_INTEGER };
+        const missed = cursor ? replayLogs(state, cursor) : [];
+
+        if (missed === null) {
+          send(formatEvent('reset', { lastBlock: state.lastBlock }, logEventId(headPosition)));
+          lastSent = headPosition;
+        } else if (missed.length > 0) {
+          sendLogs(missed);
+        } else {
+          // Gives a fresh client the cursor to reconnect from
+          send(formatEvent('ready', { lastBlock: state.lastBlock }, cursor ? logEventId(cursor) : logEventId(headPosition)));
+          lastSent = cursor ?? headPosition;
+        }
+      } catch (error) {
+        console.error('Error preparing event stream:', error);
+        send(formatEvent('ready', { lastBlock: null }, cursor ? logEventId(cursor) : undefined));
+        lastSent = cursor;
+      }
+
+      const held = pending;
+      pending = null;
+      held.forEach(handle);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disables response buffering in nginx
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseGameId } from '@/lib/api/games';
+import { getIndexer, READ_MAX_AGE } from '@/lib/indexer';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const gameId = parseGameId((await params).id);
+  if (gameId.error !== undefined) {
+    return NextResponse.json({ error: gameId.error }, { status: 400 });
+  }
+
+  try {
+    const id = gameId.value.toString();
+    const game = (await getIndexer().getGames({ maxAge: READ_MAX_AGE })).find((candidate) => candidate.gameId === id);
+
+    if (!game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: game });
+  } catch (error) {
+    console.error('Error fetching game:', error);
+    return NextResponse.json({ error: 'Failed to fetch game' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paginateGames, parseGameQuery } from '@/lib/api/games';
+import { getIndexer, READ_MAX_AGE } from '@/lib/indexer';
+
+export async function GET(request: NextRequest) {
+  const query = parseGameQuery(request.nextUrl.searchParams);
+  if (query.error !== undefined) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  try {
+    const games = await getIndexer().getGames({ maxAge: READ_MAX_AGE });
+    return NextResponse.json(paginateGames(games, query.value));
+  } catch (error) {
+    console.error('Error listing games:', error);
+    return NextResponse.json({ error: 'Failed to list games' }, { status: 500 });
+  }
+}
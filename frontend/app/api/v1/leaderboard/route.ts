@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildLeaderboard, parseLeaderboardQuery } from '@/lib/api/leaderboard';
+import { getIndexer, READ_MAX_AGE } from '@/lib/indexer';
+
+export async function GET(request: NextRequest) {
+  const query = parseLeaderboardQuery(request.nextUrl.searchParams);
+  if (query.error !== undefined) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  try {
+    const games = await getIndexer().getGames({ maxAge: READ_MAX_AGE });
+    return NextResponse.json(buildLeaderboard(games, query.value, Math.floor(Date.now() / 1000)));
+  } catch (error) {
+    console.error('Error building leaderboard:', error);
+    return NextResponse.json({ error: 'Failed to build leaderboard' }, { status: 500 });
+  }
+}
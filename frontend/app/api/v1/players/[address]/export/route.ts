@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportFileName, exportRows, parseExportQuery, toCsv, type ExportDocument } from '@/lib/api/export';
+import { parseAddress } from '@/lib/api/games';
+import { getIndexer, READ_MAX_AGE } from '@/lib/indexer';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  const player = parseAddress((await params).address);
+  if (player.error !== undefined) {
+    return NextResponse.json({ error: player.error }, { status: 400 });
+  }
+
+  const query = parseExportQuery(request.nextUrl.searchParams);
+  if (query.error !== undefined) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  try {
+    const indexer = getIndexer();
+    const state = await indexer.sync({ maxAge: READ_MAX_AGE });
+    const games = await indexer.getGames({ maxAge: READ_MAX_AGE });
+    const { format, games: gameQuery } = query.value;
+    const rows = exportRows(games, { ...gameQuery, player: player.value });
+    const headers = {
+      'Content-Disposition': `attachment; filename="${exportFileName(player.value, state.chainId, format)}"`,
+      'Cache-Control': 'no-store',
+    };
+
+    if (format === 'csv') {
+      return new NextResponse(toCsv(rows), { headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' } });
+    }
+
+    const document: ExportDocument = {
+      player: player.value,
+      chainId: state.chainId,
+      contract: state.address,
+      from: gameQuery.from === undefined ? null : new Date(gameQuery.from * 1000).toISOString(),
+      to: gameQuery.to === undefined ? null : new Date(gameQuery.to * 1000).toISOString(),
+      games: rows,
+    };
+    return NextResponse.json(document, { headers });
+  } catch (error) {
+    console.error('Error exporting player games:', error);
+    return NextResponse.json({ error: 'Failed to export player games' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paginateGames, parseAddress, parseGameQuery } from '@/lib/api/games';
+import { getIndexer, READ_MAX_AGE } from '@/lib/indexer';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  const player = parseAddress((await params).address);
+  if (player.error !== undefined) {
+    return NextResponse.json({ error: player.error }, { status: 400 });
+  }
+
+  const query = parseGameQuery(request.nextUrl.searchParams);
+  if (query.error !== undefined) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  try {
+    const games = await getIndexer().getGames({ maxAge: READ_MAX_AGE });
+    return NextResponse.json(paginateGames(games, { ...query.value, player: player.value }));
+  } catch (error) {
+    console.error('Error listing player games:', error);
+    return NextResponse.json({ error: 'Failed to list player games' }, { status: 500 });
+  }
+}
@@ -10,7 +10,7 @@ const inter = Inter({
 
 export const metadata: Metadata = {
   title: "Monad Coin Flip (MCF) - Provably Fair Gaming",
-  description: "Win 1.9x your bet with provably fair coin flips powered by Pyth Entropy on Monad",
+  description: "Provably fair coin flips powered by Pyth Entropy on Monad",
 };
 
 export default function RootLayout({
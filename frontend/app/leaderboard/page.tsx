@@ -0,0 +1,22 @@
+'use client';
+
+import { Leaderboard } from '@/components/Leaderboard';
+import { SiteHeader } from '@/components/SiteHeader';
+
+export default function LeaderboardPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 transition-colors duration-300">
+      <SiteHeader subtitle="Leaderboard" />
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Leaderboard</h2>
+          <p className="text-gray-600 dark:text-gray-300">Top players by net profit, volume, games played and longest win streak</p>
+        </div>
+
+        <Leaderboard />
+      </div>
+    </main>
+  );
+}
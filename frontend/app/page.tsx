@@ -1,16 +1,21 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { CoinFlip } from '@/components/CoinFlip';
 import { GameHistory } from '@/components/GameHistory';
-import { ConnectButton } from '@/components/ConnectButton';
+import { LiveFlips } from '@/components/LiveFlips';
 import { Statistics } from '@/components/Statistics';
-import { ThemeToggle } from '@/components/ThemeToggle';
 import { FAQModal } from '@/components/FAQModal';
+import { AdminLink } from '@/components/AdminLink';
+import { HEADER_BUTTON_CLASS, SiteHeader } from '@/components/SiteHeader';
+import { useHouseEdge } from '@/hooks/useHouseEdge';
+import { formatHouseEdge, formatMultiplier } from '@/lib/houseEdge';
 
 export default function Home() {
   const [refreshHistory, setRefreshHistory] = useState(0);
   const [showFAQ, setShowFAQ] = useState(false);
+  const { houseEdgeBps } = useHouseEdge();
 
   const handleGameComplete = () => {
     setRefreshHistory(prev => prev + 1);
@@ -18,39 +23,22 @@ export default function Home() {
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 transition-colors duration-300">
-      {/* Header */}
-      <header className="sticky top-0 z-50 backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-b border-gray-200/50 dark:border-gray-700/50">
-        <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-gradient-to-br from-purple-600 to-blue-600 rounded-2xl flex items-center justify-center shadow-lg">
-                <span className="text-2xl">🎲</span>
-              </div>
-              <div>
-                <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Monad Coin Flip</h1>
-                <p className="text-xs text-gray-500 dark:text-gray-400">Provably Fair Gaming</p>
-              </div>
-            </div>
-            <div className="flex items-center gap-3">
-              <button
-                onClick={() => setShowFAQ(true)}
-                className="px-4 py-2 rounded-xl bg-white/10 dark:bg-gray-800/50 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50 hover:bg-white/20 dark:hover:bg-gray-700/50 transition-all duration-200 shadow-sm text-gray-700 dark:text-gray-300 font-medium text-sm"
-              >
-                FAQ
-              </button>
-              <ThemeToggle />
-              <ConnectButton />
-            </div>
-          </div>
-        </div>
-      </header>
+      <SiteHeader subtitle="Provably Fair Gaming">
+        <Link href="/leaderboard" className={HEADER_BUTTON_CLASS}>
+          Leaderboard
+        </Link>
+        <AdminLink />
+        <button onClick={() => setShowFAQ(true)} className={HEADER_BUTTON_CLASS}>
+          FAQ
+        </button>
+      </SiteHeader>
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8 max-w-6xl">
         {/* Hero Section */}
         <div className="text-center mb-12">
           <h2 className="text-4xl font-bold text-gray-900 dark:text-white mb-3">
-            Win <span className="text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-blue-600">1.9x</span> Your Bet
+            Win <span className="text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-blue-600">{formatMultiplier(houseEdgeBps)}</span> Your Bet
           </h2>
           <p className="text-gray-600 dark:text-gray-300 text-lg">
             Provably fair coin flip powered by Pyth Entropy
@@ -69,7 +57,7 @@ export default function Home() {
           </div>
           <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl rounded-3xl p-6 border border-gray-200/50 dark:border-gray-700/50 shadow-sm">
             <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">House Fee</div>
-            <div className="text-2xl font-semibold text-gray-900 dark:text-white">5%</div>
+            <div className="text-2xl font-semibold text-gray-900 dark:text-white">{formatHouseEdge(houseEdgeBps)}</div>
           </div>
         </div>
 
@@ -78,6 +66,11 @@ export default function Home() {
           <CoinFlip onGameComplete={handleGameComplete} />
         </div>
 
+        {/* Live Flips */}
+        <div className="mb-8">
+          <LiveFlips />
+        </div>
+
         {/* Game History */}
         <div>
           <GameHistory key={refreshHistory} />
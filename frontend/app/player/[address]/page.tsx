@@ -0,0 +1,34 @@
+'use client';
+
+import { use } from 'react';
+import { PlayerProfile } from '@/components/PlayerProfile';
+import { SiteHeader } from '@/components/SiteHeader';
+import { parseAddress } from '@/lib/api/games';
+import { shortenAddress } from '@/lib/format';
+
+export default function PlayerPage({ params }: { params: Promise<{ address: string }> }) {
+  const { address } = use(params);
+  const player = parseAddress(address);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 transition-colors duration-300">
+      <SiteHeader subtitle="Player" />
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {player.error !== undefined ? (
+          <p className="text-center text-red-600 dark:text-red-400">{address} is not a valid address</p>
+        ) : (
+          <>
+            <div className="text-center mb-8">
+              <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 font-mono">{shortenAddress(player.value)}</h2>
+              <p className="text-gray-500 dark:text-gray-400 text-sm font-mono break-all">{player.value}</p>
+            </div>
+
+            <PlayerProfile player={player.value} />
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
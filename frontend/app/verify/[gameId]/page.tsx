@@ -0,0 +1,27 @@
+'use client';
+
+import { use } from 'react';
+import { GameVerification } from '@/components/GameVerification';
+import { SiteHeader } from '@/components/SiteHeader';
+
+export default function VerifyPage({ params }: { params: Promise<{ gameId: string }> }) {
+  const { gameId } = use(params);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 transition-colors duration-300">
+      <SiteHeader subtitle="Provably Fair Gaming" />
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Verify Game #{gameId}</h2>
+          <p className="text-gray-600 dark:text-gray-300">
+            Recomputes the result from the random number revealed by Pyth Entropy, using only on-chain data
+          </p>
+        </div>
+
+        <GameVerification gameId={gameId} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { formatEther } from 'viem';
+import { formatMon } from '../lib/format';
+import type { BetPhase, BetState, TrackedBet } from '../lib/betLifecycle';
+import type { RevealState } from '../lib/commitReveal';
+
+interface ActiveBetsProps {
+  bets: TrackedBet[];
+  onDismiss: (id: string) => void;
+  // V1 only: open games are settled by the player sending `revealResult`
+  reveals?: Record<string, RevealState>;
+  onReveal?: (gameId: bigint, sequenceNumber: bigint) => void;
+}
+
+type ActiveBetProps = Omit<ActiveBetsProps, 'bets'> & { bet: TrackedBet };
+
+// Revealed bets leave the list on their own; cancelled and failed ones wait to be dismissed
+const RESULT_VISIBLE_MS = 8000;
+
+const STEPS: { label: string; phases: BetPhase[] }[] = [
+  { label: 'Sign', phases: ['signing'] },
+  { label: 'Submit', phases: ['submitted'] },
+  { label: 'Confirm', phases: ['confirmed'] },
+  { label: 'Entropy', phases: ['awaiting-entropy'] },
+  { label: 'Result', phases: ['revealed', 'cancelled'] },
+];
+
+// Failed bets are marked on the step that failed: signing, or waiting for the receipt
+function stepIndex(bet: BetState) {
+  if (bet.phase === 'failed') return bet.txHash ? 1 : 0;
+  return STEPS.findIndex((step) => step.phases.includes(bet.phase));
+}
+
+function betStatusMessage(bet: BetState): string {
+  switch (bet.phase) {
+    case 'idle':
+      return '';
+    case 'signing':
+      return 'Confirm the bet in your wallet...';
+    case 'submitted':
+      return 'Confirming transaction...';
+    case 'confirmed':
+      return 'Bet placed! Waiting for result...';
+    case 'awaiting-entropy':
+      return 'Waiting for Pyth Entropy to reveal result...';
+    case 'revealed': {
+      const resultSide = bet.result === 0 ? 'Heads' : 'Tails';
+      return bet.won
+        ? `🎉 You won! Result: ${resultSide}. Payout: ${formatEther(bet.payout)} MON`
+        : `😢 You lost. Result: ${resultSide}. Better luck next time!`;
+    }
+    case 'cancelled':
+      return 'Game cancelled and refunded.';
+    case 'failed':
+      return bet.error;
+  }
+}
+
+function revealStatusMessage(reveal: RevealState | undefined): string {
+  switch (reveal?.phase) {
+    case undefined:
+      return 'Bet placed! Reveal the result to settle it.';
+    case 'fetching':
+      return 'Waiting for the entropy provider to publish its revelation...';
+    case 'signing':
+      return 'Confirm the reveal in your wallet...';
+    case 'submitted':
+      return 'Revealing result...';
+    case 'failed':
+      return reveal.error;
+  }
+}
+
+function stepClass(bet: BetState, index: number, currentIndex: number) {
+  if (index > currentIndex) return 'bg-gray-300/50 dark:bg-white/10';
+  if (index < currentIndex) return 'bg-green-500';
+  if (bet.phase === 'failed') return 'bg-red-500';
+  if (bet.phase === 'cancelled') return 'bg-gray-400';
+  if (bet.phase === 'revealed') return 'bg-green-500';
+  return 'bg-yellow-500 animate-pulse';
+}
+
+function ActiveBet({ bet: { id, state }, onDismiss, reveals, onReveal }: ActiveBetProps) {
+  useEffect(() => {
+    if (state.phase !== 'revealed') return;
+    const timeout = setTimeout(() => onDismiss(id), RESULT_VISIBLE_MS);
+    return () => clearTimeout(timeout);
+  }, [id, state.phase, onDismiss]);
+
+  if (state.phase === 'idle') return null;
+
+  const currentIndex = stepIndex(state);
+  const gameId = 'gameId' in state ? state.gameId : undefined;
+  const settled = state.phase === 'revealed' || state.phase === 'cancelled' || state.phase === 'failed';
+
+  return (
+    <div className="p-4 bg-white/10 dark:bg-gray-700/50 backdrop-blur-xl border border-gray-300/50 dark:border-white/20 rounded-2xl">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="text-gray-700 dark:text-white/70">
+          {gameId !== undefined ? (
+            <Link href={`/verify/${gameId.toString()}`} className="font-mono hover:underline">
+              #{gameId.toString()}
+            </Link>
+          ) : (
+            <span className="font-mono">New bet</span>
+          )}{' '}
+          · {formatMon(state.bet.amount, 3)} MON on {state.bet.choice === 0 ? 'Heads' : 'Tails'}
+        </span>
+        {settled && (
+          <button
+            onClick={() => onDismiss(id)}
+            className="text-gray-500 dark:text-white/50 hover:text-gray-900 dark:hover:text-white"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-5 gap-1 mb-2">
+        {STEPS.map((step, index) => (
+          <div key={step.label}>
+            <div className={`h-1.5 rounded-full ${stepClass(state, index, currentIndex)}`} />
+            <p className="text-[10px] text-center text-gray-500 dark:text-white/40 mt-1">{step.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {onReveal && state.phase === 'awaiting-entropy' ? (
+        <RevealControls state={state} reveal={reveals?.[state.gameId.toString()]} onReveal={onReveal} />
+      ) : (
+        <p className="text-center text-gray-900 dark:text-white/90">{betStatusMessage(state)}</p>
+      )}
+    </div>
+  );
+}
+
+interface RevealControlsProps {
+  state: Extract<BetState, { phase: 'awaiting-entropy' }>;
+  reveal: RevealState | undefined;
+  onReveal: (gameId: bigint, sequenceNumber: bigint) => void;
+}
+
+function RevealControls({ state, reveal, onReveal }: RevealControlsProps) {
+  const busy = reveal !== undefined && reveal.phase !== 'failed';
+
+  return (
+    <div className="space-y-2">
+      <p className={`text-center ${reveal?.phase === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white/90'}`}>
+        {revealStatusMessage(reveal)}
+      </p>
+      <button
+        onClick={() => onReveal(state.gameId, state.sequenceNumber)}
+        disabled={busy}
+        className="w-full py-2 bg-gradient-to-b from-purple-500 to-purple-600 text-white text-sm font-semibold rounded-xl shadow hover:shadow-lg active:scale-95 transform transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+      >
+        {busy ? 'Revealing...' : reveal?.phase === 'failed' ? 'Retry Reveal' : 'Reveal Result'}
+      </button>
+    </div>
+  );
+}
+
+// Progress of the connected player's open bets, newest first
+export function ActiveBets({ bets, onDismiss, reveals, onReveal }: ActiveBetsProps) {
+  if (bets.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      {[...bets].reverse().map((bet) => (
+        <ActiveBet key={bet.id} bet={bet} onDismiss={onDismiss} reveals={reveals} onReveal={onReveal} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount, useReadContracts, useWaitForTransactionReceipt, useWriteContract } from 'wagmi';
+import { formatEther, isAddressEqual } from 'viem';
+import { COIN_FLIP_V1_ABI } from '../config/abi/CoinFlip';
+import { COIN_FLIP_ADDRESS, COIN_FLIP_ABI, COIN_FLIP_VERSION } from '../config/contract';
+import { useHouseEdge } from '../hooks/useHouseEdge';
+import { usePreflight } from '../hooks/usePreflight';
+import {
+  adminWrite,
+  parseAdminAddress,
+  previewAdminAction,
+  validateAdminAction,
+  type AdminAction,
+  type HouseState,
+} from '../lib/admin';
+import { describeError } from '../lib/errors';
+import { parseMonAmount } from '../lib/format';
+import { formatHouseEdge, formatMultiplier, parseHouseEdgePercent } from '../lib/houseEdge';
+import { PreflightSummary } from './PreflightSummary';
+
+const contract = { address: COIN_FLIP_ADDRESS, abi: COIN_FLIP_ABI } as const;
+
+// V1 has no `getEntropyProvider`; its fallback would answer the call with empty data and fail
+// the whole batch. The immutable provider is read from its public variable instead.
+const entropyProviderRead =
+  COIN_FLIP_VERSION === 'v1'
+    ? ({ address: COIN_FLIP_ADDRESS, abi: COIN_FLIP_V1_ABI, functionName: 'entropyProvider' } as const)
+    : ({ ...contract, functionName: 'getEntropyProvider' } as const);
+
+const inputClass =
+  'flex-1 min-w-0 px-4 py-2.5 bg-white/10 dark:bg-gray-700/50 backdrop-blur-xl border border-gray-300/50 dark:border-white/20 rounded-xl text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all';
+const buttonClass =
+  'px-5 py-2.5 bg-gradient-to-b from-blue-500 to-blue-600 text-white text-sm font-semibold rounded-xl shadow-lg hover:shadow-xl active:scale-95 transform transition-all duration-200 ease-out disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100';
+const dangerButtonClass =
+  'px-5 py-2.5 bg-gradient-to-b from-red-500 to-red-600 text-white text-sm font-semibold rounded-xl shadow-lg hover:shadow-xl active:scale-95 transform transition-all duration-200 ease-out disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100';
+const cardClass =
+  'p-6 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl';
+
+export function AdminConsole() {
+  const { address, isConnected } = useAccount();
+  const [depositAmount, setDepositAmount] = useState('');
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+  const [minBetInput, setMinBetInput] = useState('');
+  const [maxBetInput, setMaxBetInput] = useState('');
+  const [houseEdgeInput, setHouseEdgeInput] = useState('');
+  const [providerInput, setProviderInput] = useState('');
+  const [newOwnerInput, setNewOwnerInput] = useState('');
+  const [pendingAction, setPendingAction] = useState<AdminAction | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  const preflight = usePreflight(pendingAction ? adminWrite(pendingAction) : null);
+  const houseEdge = useHouseEdge();
+  const { houseEdgeBps } = houseEdge;
+
+  const { data, refetch, isLoading } = useReadContracts({
+    contracts: [
+      { ...contract, functionName: 'owner' },
+      { ...contract, functionName: 'getContractBalance' },
+      { ...contract, functionName: 'houseFees' },
+      { ...contract, functionName: 'getAvailableHouseBalance' },
+      { ...contract, functionName: 'minBet' },
+      { ...contract, functionName: 'maxBet' },
+      entropyProviderRead,
+    ],
+    allowFailure: false,
+  });
+
+  const { writeContract, data: hash, isPending, error: writeError, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed, error: receiptError } = useWaitForTransactionReceipt({ hash });
+  const txError = writeError ?? receiptError;
+
+  useEffect(() => {
+    if (isConfirmed) {
+      setStatusMessage('Transaction confirmed');
+      setPendingAction(null);
+      refetch();
+    }
+  }, [isConfirmed, refetch]);
+
+  if (!isConnected || !address) {
+    return (
+      <div className={`${cardClass} max-w-md mx-auto text-center`}>
+        <p className="text-gray-700 dark:text-white/70 text-lg">Connect the owner wallet to manage the house</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-white/20 border-t-white"></div>
+      </div>
+    );
+  }
+
+  const [owner, balance, houseFees, availableBalance, minBet, maxBet, entropyProvider] = data;
+
+  if (!isAddressEqual(owner, address)) {
+    return (
+      <div className={`${cardClass} max-w-md mx-auto text-center`}>
+        <div className="text-6xl mb-4">🔒</div>
+        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Owner only</h3>
+        <p className="text-gray-700 dark:text-white/70">
+          The admin console is only available to the contract owner.
+        </p>
+      </div>
+    );
+  }
+
+  const house: HouseState = { balance, houseFees, minBet, maxBet, houseEdgeBps, entropyProvider, owner };
+  const isBusy = isPending || isConfirming;
+
+  const review = (action: AdminAction | null, invalidMessage: string) => {
+    reset();
+    if (!action) {
+      setStatusMessage(invalidMessage);
+      return;
+    }
+    setStatusMessage('');
+    setPendingAction(action);
+  };
+
+  const reviewAmount = (input: string, build: (amount: bigint) => AdminAction) => {
+    const amount = parseMonAmount(input);
+    review(amount === null ? null : build(amount), 'Enter a valid MON amount');
+  };
+
+  const reviewAddress = (input: string, build: (value: `0x${string}`) => AdminAction) => {
+    const value = parseAdminAddress(input);
+    review(value === null ? null : build(value), 'Enter a valid address');
+  };
+
+  const reviewHouseEdge = (input: string) => {
+    const value = parseHouseEdgePercent(input);
+    review(value === null ? null : { type: 'setHouseEdge', houseEdgeBps: value }, 'Enter the house edge in percent');
+  };
+
+  const submit = (action: AdminAction) => {
+    const write = adminWrite(action);
+    // wagmi types `value` per function, so the payable deposit is narrowed apart from the setters
+    if (write.functionName === 'depositHouseFunds') {
+      writeContract({ ...contract, ...write });
+    } else {
+      writeContract({ ...contract, ...write });
+    }
+  };
+
+  const preview = pendingAction ? previewAdminAction(pendingAction, house) : null;
+  const validationError = pendingAction ? validateAdminAction(pendingAction, house) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* House balances */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {[
+          ['Contract Balance', balance, 'Everything held by the contract'],
+          ['House Fees', houseFees, 'Withdrawable by the owner'],
+          ['Available House Balance', availableBalance, 'Balance minus fees, backs payouts'],
+        ].map(([label, value, hint]) => (
+          <div key={label as string} className={cardClass}>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">{label as string}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatEther(value as bigint)} MON</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint as string}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Funds */}
+        <div className={`${cardClass} space-y-4`}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">House Funds</h3>
+          <div className="flex gap-2">
+            <input value={depositAmount} onChange={(e) => setDepositAmount(e.target.value)} placeholder="Deposit (MON)" className={inputClass} disabled={isBusy} />
+            <button onClick={() => reviewAmount(depositAmount, (amount) => ({ type: 'depositHouseFunds', amount }))} disabled={isBusy} className={buttonClass}>
+              Deposit
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input value={withdrawAmount} onChange={(e) => setWithdrawAmount(e.target.value)} placeholder="Withdraw fees (MON)" className={inputClass} disabled={isBusy} />
+            <button onClick={() => setWithdrawAmount(formatEther(houseFees))} disabled={isBusy} className="px-3 text-sm text-blue-600 dark:text-blue-400">
+              Max
+            </button>
+            <button onClick={() => reviewAmount(withdrawAmount, (amount) => ({ type: 'withdrawHouseFees', amount }))} disabled={isBusy} className={buttonClass}>
+              Withdraw
+            </button>
+          </div>
+          <button onClick={() => review({ type: 'emergencyWithdraw' }, '')} disabled={isBusy} className={`${dangerButtonClass} w-full`}>
+            Emergency withdraw all
+          </button>
+        </div>
+
+        {/* Limits */}
+        <div className={`${cardClass} space-y-4`}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Bet Limits</h3>
+          <div className="flex gap-2">
+            <input value={minBetInput} onChange={(e) => setMinBetInput(e.target.value)} placeholder={`Min bet (now ${formatEther(minBet)})`} className={inputClass} disabled={isBusy} />
+            <button onClick={() => reviewAmount(minBetInput, (value) => ({ type: 'setMinBet', value }))} disabled={isBusy} className={buttonClass}>
+              Update
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input value={maxBetInput} onChange={(e) => setMaxBetInput(e.target.value)} placeholder={`Max bet (now ${formatEther(maxBet)})`} className={inputClass} disabled={isBusy} />
+            <button onClick={() => reviewAmount(maxBetInput, (value) => ({ type: 'setMaxBet', value }))} disabled={isBusy} className={buttonClass}>
+              Update
+            </button>
+          </div>
+          {/* Only offered once `houseEdgeBps` is read: V1 and V2 deployments from before the setting
+              would take `setHouseEdge` in their payable fallback and change nothing */}
+          {houseEdge.isConfigurable ? (
+            <div className="flex gap-2">
+              <input value={houseEdgeInput} onChange={(e) => setHouseEdgeInput(e.target.value)} placeholder={`House edge % (now ${formatHouseEdge(houseEdgeBps)})`} className={inputClass} disabled={isBusy} />
+              <button onClick={() => reviewHouseEdge(houseEdgeInput)} disabled={isBusy} className={buttonClass}>
+                Update
+              </button>
+            </div>
+          ) : houseEdge.error ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The house edge can&apos;t be changed here: reading the contract&apos;s current edge failed, as it does on deployments from before the setting.
+            </p>
+          ) : (
+            !houseEdge.isLoading && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                This deployment has no house edge setting; wins pay a fixed {formatMultiplier(houseEdgeBps)}.
+              </p>
+            )
+          )}
+        </div>
+
+        {/* Control */}
+        <div className={`${cardClass} space-y-4 md:col-span-2`}>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Control</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 font-mono break-all">Entropy provider: {entropyProvider}</p>
+          {/* Immutable on V1, whose fallback would accept the call and do nothing */}
+          {COIN_FLIP_VERSION === 'v2' && (
+            <div className="flex gap-2">
+              <input value={providerInput} onChange={(e) => setProviderInput(e.target.value)} placeholder="New entropy provider (0x...)" className={inputClass} disabled={isBusy} />
+              <button onClick={() => reviewAddress(providerInput, (provider) => ({ type: 'setEntropyProvider', provider }))} disabled={isBusy} className={dangerButtonClass}>
+                Change
+              </button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input value={newOwnerInput} onChange={(e) => setNewOwnerInput(e.target.value)} placeholder="New owner (0x...)" className={inputClass} disabled={isBusy} />
+            <button onClick={() => reviewAddress(newOwnerInput, (newOwner) => ({ type: 'transferOwnership', newOwner }))} disabled={isBusy} className={dangerButtonClass}>
+              Transfer
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {statusMessage && (
+        <div className="p-4 bg-white/10 dark:bg-gray-700/50 backdrop-blur-xl border border-gray-300/50 dark:border-white/20 rounded-2xl">
+          <p className="text-center text-gray-900 dark:text-white/90">{statusMessage}</p>
+        </div>
+      )}
+
+      {/* Confirmation step */}
+      {pendingAction && preview && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => !isBusy && setPendingAction(null)} />
+          <div className="relative w-full max-w-lg bg-white dark:bg-gray-900 rounded-3xl shadow-2xl overflow-hidden">
+            <div className={`px-6 py-5 ${preview.dangerous ? 'bg-gradient-to-r from-red-600 to-orange-600' : 'bg-gradient-to-r from-purple-600 to-blue-600'}`}>
+              <h2 className="text-xl font-bold text-white">
+                {preview.dangerous ? '⚠️ ' : ''}{preview.title}
+              </h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="space-y-2">
+                {preview.rows.map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-4 text-sm">
+                    <span className="text-gray-500 dark:text-gray-400">{label}</span>
+                    <span className="text-gray-900 dark:text-white font-medium font-mono break-all text-right">{value}</span>
+                  </div>
+                ))}
+              </div>
+              {validationError && (
+                <p className="text-sm text-red-600 dark:text-red-400">Would revert: {validationError}</p>
+              )}
+              {!validationError && <PreflightSummary result={preflight.data} isLoading={preflight.isLoading} />}
+              {txError && <p className="text-sm text-red-600 dark:text-red-400">{describeError(txError)}</p>}
+              <div className="flex gap-3">
+                <button onClick={() => setPendingAction(null)} disabled={isBusy} className="flex-1 px-5 py-2.5 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-semibold disabled:opacity-50">
+                  Back
+                </button>
+                <button
+                  onClick={() => submit(pendingAction)}
+                  disabled={isBusy || validationError !== null || preflight.data?.ok === false}
+                  className={`flex-1 ${preview.dangerous ? dangerButtonClass : buttonClass}`}
+                >
+                  {isPending ? 'Confirm in wallet...' : isConfirming ? 'Confirming...' : 'Confirm'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
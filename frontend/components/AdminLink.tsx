@@ -0,0 +1,30 @@
+'use client';
+
+import Link from 'next/link';
+import { useAccount, useReadContract } from 'wagmi';
+import { isAddressEqual } from 'viem';
+import { COIN_FLIP_ADDRESS, COIN_FLIP_ABI } from '../config/contract';
+import { HEADER_BUTTON_CLASS } from './SiteHeader';
+
+// Header link to the admin console, only rendered for the contract owner
+export function AdminLink() {
+  const { address } = useAccount();
+  const { data: owner } = useReadContract({
+    address: COIN_FLIP_ADDRESS,
+    abi: COIN_FLIP_ABI,
+    functionName: 'owner',
+    query: {
+      enabled: !!address,
+    },
+  });
+
+  if (!address || !owner || !isAddressEqual(owner, address)) {
+    return null;
+  }
+
+  return (
+    <Link href="/admin" className={HEADER_BUTTON_CLASS}>
+      Admin
+    </Link>
+  );
+}
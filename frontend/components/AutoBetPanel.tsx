@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import type { AutoBet } from '../hooks/useAutoBet';
+import type { CoinSide } from '../lib/betLifecycle';
+import { formatMon, formatSignedMon, parseMon } from '../lib/format';
+import { clampStake, STRATEGIES, validateStrategy, type StopReason, type StrategyConfig, type StrategyKind, type StrategyLimits } from '../lib/strategy';
+
+interface AutoBetPanelProps {
+  // Owned by CoinFlip, so a session keeps running while another mode is shown
+  autoBet: AutoBet;
+  // Null until the contract limits are loaded
+  limits: StrategyLimits | null;
+}
+
+const STOP_MESSAGES: Record<StopReason, string> = {
+  'stop-loss': 'Stop-loss reached',
+  'take-profit': 'Take-profit reached',
+  'max-rounds': 'All rounds played',
+  stopped: 'Stopped',
+  failed: 'Stopped: a bet could not be placed',
+};
+
+// Rounds shown in the session log
+const LOG_SIZE = 10;
+
+interface StrategyForm {
+  kind: StrategyKind;
+  side: CoinSide;
+  baseStake: string;
+  multiplier: string;
+  maxStake: string;
+  stopLoss: string;
+  takeProfit: string;
+  maxRounds: string;
+}
+
+// Empty optional fields are off; invalid ones make the whole form invalid
+function parseForm(form: StrategyForm): StrategyConfig | string {
+  const baseStake = parseMon(form.baseStake);
+  if (baseStake === null) return 'Enter a base stake';
+
+  const optional = (value: string, label: string) => {
+    if (value.trim() === '') return undefined;
+    const wei = parseMon(value);
+    if (wei === null) throw new Error(`Invalid ${label}`);
+    return wei;
+  };
+
+  try {
+    const maxRounds = form.maxRounds.trim() === '' ? undefined : Number(form.maxRounds);
+    if (maxRounds !== undefined && !Number.isInteger(maxRounds)) return 'Max rounds must be a whole number';
+    return {
+      kind: form.kind,
+      side: form.side,
+      baseStake,
+      multiplierPercent: Number(form.multiplier) * 100,
+      maxStake: optional(form.maxStake, 'max stake'),
+      stopLoss: optional(form.stopLoss, 'stop-loss'),
+      takeProfit: optional(form.takeProfit, 'take-profit'),
+      maxRounds,
+    };
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+export function AutoBetPanel({ autoBet, limits }: AutoBetPanelProps) {
+  const { status, config, session, rounds, stopReason, start, stop } = autoBet;
+  const [form, setForm] = useState<StrategyForm>({
+    kind: 'fixed',
+    side: 0,
+    baseStake: '0.01',
+    multiplier: '2',
+    maxStake: '',
+    stopLoss: '',
+    takeProfit: '',
+    maxRounds: '10',
+  });
+
+  const running = status !== 'idle';
+  const parsed = parseForm(form);
+  const error = typeof parsed === 'string' ? parsed : limits ? validateStrategy(parsed, limits) : null;
+  const usesMultiplier = form.kind === 'martingale' || form.kind === 'anti-martingale';
+
+  const inputClass =
+    'w-full px-3 py-2 bg-white/10 dark:bg-gray-700/50 backdrop-blur-xl border border-gray-300/50 dark:border-white/20 rounded-xl text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all disabled:opacity-50';
+  const field = (key: keyof StrategyForm, label: string, placeholder = '') => (
+    <label className="block text-sm text-gray-700 dark:text-white/70">
+      {label}
+      <input
+        type="number"
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        placeholder={placeholder}
+        disabled={running}
+        className={`${inputClass} mt-1`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm text-gray-700 dark:text-white/70 mb-3">
+        Strategy
+        <select
+          value={form.kind}
+          onChange={(e) => setForm({ ...form, kind: e.target.value as StrategyKind })}
+          disabled={running}
+          className={`${inputClass} mt-1`}
+        >
+          {STRATEGIES.map((strategy) => (
+            <option key={strategy.kind} value={strategy.kind}>
+              {strategy.label}
+            </option>
+          ))}
+        </select>
+        <span className="block text-xs text-gray-500 dark:text-white/50 mt-1">
+          {STRATEGIES.find((strategy) => strategy.kind === form.kind)?.description}
+        </span>
+      </label>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        {field('baseStake', 'Base stake (MON)')}
+        {usesMultiplier ? field('multiplier', 'Multiplier (x)') : <div />}
+        {field('maxStake', 'Max stake (MON)', 'maxBet')}
+        {field('maxRounds', 'Max rounds', 'unlimited')}
+        {field('stopLoss', 'Stop-loss (MON)', 'off')}
+        {field('takeProfit', 'Take-profit (MON)', 'off')}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {([0, 1] as const).map((side) => (
+          <button
+            key={side}
+            onClick={() => setForm({ ...form, side })}
+            disabled={running}
+            className={`py-2 rounded-xl font-semibold transition-all ${
+              form.side === side
+                ? 'bg-gradient-to-b from-blue-500 to-blue-600 text-white'
+                : 'bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 text-gray-700 dark:text-white/70'
+            } disabled:opacity-50`}
+          >
+            {form.kind === 'alternate' ? 'Start on ' : ''}
+            {side === 0 ? 'Heads' : 'Tails'}
+          </button>
+        ))}
+      </div>
+
+      {!running && error && <p className="mb-3 text-sm text-center text-red-600 dark:text-red-400">{error}</p>}
+
+      {running ? (
+        <button
+          onClick={stop}
+          disabled={status === 'stopping'}
+          className="w-full py-4 bg-gradient-to-b from-red-500 to-red-600 text-white font-bold text-lg rounded-2xl shadow-lg active:scale-95 transform transition-all duration-200 ease-out disabled:opacity-50"
+        >
+          {status === 'stopping' ? 'Stopping after this round...' : 'Stop Auto-Play'}
+        </button>
+      ) : (
+        <button
+          onClick={() => typeof parsed !== 'string' && start(parsed)}
+          disabled={!limits || !!error}
+          className="w-full py-4 bg-gradient-to-b from-green-500 to-green-600 text-white font-bold text-lg rounded-2xl shadow-lg hover:shadow-xl active:scale-95 transform transition-all duration-200 ease-out disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+        >
+          Start Auto-Play
+        </button>
+      )}
+      <p className="text-xs text-center text-gray-500 dark:text-white/50 mt-2">Your wallet asks you to confirm every round</p>
+
+      {session && (
+        <div className="mt-4 p-4 bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 rounded-2xl text-sm">
+          <div className="flex justify-between items-baseline mb-2">
+            <span className="text-gray-700 dark:text-white/70">Session P&amp;L</span>
+            <span
+              className={`text-xl font-bold ${session.profit < BigInt(0) ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}
+            >
+              {formatSignedMon(session.profit, 4)}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-white/50">
+            {session.rounds} rounds · {session.wins}W / {session.losses}L · {formatMon(session.wagered, 3)} MON wagered
+            {running && config && limits && ` · next stake ${formatMon(clampStake(session.nextStake, config, limits), 3)} MON`}
+          </p>
+          {!running && stopReason && <p className="mt-2 text-xs font-medium text-gray-700 dark:text-white/70">{STOP_MESSAGES[stopReason]}</p>}
+
+          {rounds.length > 0 && (
+            <div className="mt-3 space-y-1">
+              {rounds
+                .slice(-LOG_SIZE)
+                .reverse()
+                .map((round) => (
+                  <div key={round.round} className="flex justify-between text-xs text-gray-600 dark:text-white/60">
+                    <span>
+                      #{round.round} · {formatMon(round.bet.amount, 3)} on {round.bet.choice === 0 ? 'H' : 'T'}
+                    </span>
+                    <span
+                      className={
+                        round.result === 'won'
+                          ? 'text-green-600 dark:text-green-400'
+                          : round.result === 'lost'
+                            ? 'text-red-600 dark:text-red-400'
+                            : ''
+                      }
+                    >
+                      {round.result} · {formatSignedMon(round.profit, 4)}
+                    </span>
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
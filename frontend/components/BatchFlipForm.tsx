@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { checkBatch, MAX_BATCH_FLIPS, type BatchFlipCheck } from '../lib/batch';
+import type { BetRequest, CoinSide } from '../lib/betLifecycle';
+import type { BetIssue, BetLimits } from '../lib/betValidation';
+import { formatMon, parseMon } from '../lib/format';
+
+interface BatchFlipFormProps {
+  // Null until the contract limits and balance are loaded
+  limits: BetLimits | null;
+  disabled: boolean;
+  onSubmit: (flips: BatchFlipCheck[]) => void;
+}
+
+interface FlipRow {
+  choice: CoinSide;
+  amount: string;
+}
+
+const ISSUE_MESSAGES: Record<BetIssue, string> = {
+  BetTooLow: 'Below the minimum bet',
+  BetTooHigh: 'Above the maximum bet',
+  BetTooLowForEntropyFee: 'Winnings would not cover the entropy fee',
+  InsufficientHouseBalance: 'House cannot cover this payout',
+};
+
+export function BatchFlipForm({ limits, disabled, onSubmit }: BatchFlipFormProps) {
+  const [rows, setRows] = useState<FlipRow[]>([
+    { choice: 0, amount: '0.01' },
+    { choice: 1, amount: '0.01' },
+    { choice: 0, amount: '0.01' },
+  ]);
+
+  const setCount = (count: number) => {
+    setRows((current) =>
+      Array.from({ length: count }, (_, index) => current[index] ?? { choice: (index % 2) as CoinSide, amount: current[0]?.amount ?? '0.01' })
+    );
+  };
+
+  const updateRow = (index: number, row: Partial<FlipRow>) => {
+    setRows((current) => current.map((existing, i) => (i === index ? { ...existing, ...row } : existing)));
+  };
+
+  const amounts = rows.map((row) => parseMon(row.amount));
+  const flips: BetRequest[] = rows.flatMap((row, index) => {
+    const amount = amounts[index];
+    return amount === null ? [] : [{ choice: row.choice, amount }];
+  });
+  const allParsed = flips.length === rows.length;
+  const check = limits && allParsed ? checkBatch(flips, limits) : null;
+
+  const inputClass =
+    'w-full px-3 py-2 bg-white/10 dark:bg-gray-700/50 backdrop-blur-xl border border-gray-300/50 dark:border-white/20 rounded-xl text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all disabled:opacity-50';
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-gray-900 dark:text-white/90 font-medium">Flips</label>
+        <select
+          value={rows.length}
+          onChange={(e) => setCount(Number(e.target.value))}
+          disabled={disabled}
+          className="px-3 py-1 bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 rounded-xl text-gray-900 dark:text-white"
+        >
+          {Array.from({ length: MAX_BATCH_FLIPS - 1 }, (_, i) => i + 2).map((count) => (
+            <option key={count} value={count}>
+              {count} flips
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {rows.map((row, index) => {
+          const issue = amounts[index] === null ? 'Invalid amount' : check?.flips[index].issue ? ISSUE_MESSAGES[check.flips[index].issue] : null;
+          return (
+            <div key={index}>
+              <div className="flex items-center gap-2">
+                <span className="w-6 text-sm text-gray-500 dark:text-white/50">{index + 1}</span>
+                <input
+                  type="number"
+                  value={row.amount}
+                  onChange={(e) => updateRow(index, { amount: e.target.value })}
+                  step="0.01"
+                  disabled={disabled}
+                  className={inputClass}
+                  aria-label={`Flip ${index + 1} amount`}
+                />
+                {([0, 1] as const).map((side) => (
+                  <button
+                    key={side}
+                    onClick={() => updateRow(index, { choice: side })}
+                    disabled={disabled}
+                    className={`w-10 py-2 rounded-xl font-bold transition-all ${
+                      row.choice === side
+                        ? side === 0
+                          ? 'bg-gradient-to-b from-blue-500 to-blue-600 text-white'
+                          : 'bg-gradient-to-b from-purple-500 to-purple-600 text-white'
+                        : 'bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 text-gray-700 dark:text-white/70'
+                    } disabled:opacity-50`}
+                  >
+                    {side === 0 ? 'H' : 'T'}
+                  </button>
+                ))}
+              </div>
+              {issue && <p className="ml-8 mt-1 text-xs text-red-600 dark:text-red-400">{issue}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {check && limits && (
+        <div className="p-4 mb-4 text-sm bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 rounded-2xl space-y-1 text-gray-700 dark:text-white/70">
+          <div className="flex justify-between">
+            <span>Bets</span>
+            <span>{formatMon(check.totalBet, 4)} MON</span>
+          </div>
+          <div className="flex justify-between">
+            <span>
+              Entropy fees ({rows.length} × {formatMon(limits.entropyFee, 4)})
+            </span>
+            <span>{formatMon(check.totalFees, 4)} MON</span>
+          </div>
+          <div className="flex justify-between font-semibold text-gray-900 dark:text-white">
+            <span>Total cost</span>
+            <span>{formatMon(check.totalValue, 4)} MON</span>
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 dark:text-white/50">
+            <span>If every flip wins</span>
+            <span>{formatMon(check.maxPayout, 4)} MON</span>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => check && onSubmit(check.flips)}
+        disabled={disabled || !check?.valid}
+        className="w-full py-4 bg-gradient-to-b from-green-500 to-green-600 text-white font-bold text-lg rounded-2xl shadow-lg hover:shadow-xl active:scale-95 transform transition-all duration-200 ease-out disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+      >
+        {disabled ? 'Submitting flips...' : `Place ${rows.length} Bets`}
+      </button>
+      <p className="text-xs text-center text-gray-500 dark:text-white/50 mt-2">
+        Each flip is its own transaction, so your wallet asks {rows.length} times
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import Link from 'next/link';
+import type { TrackedBet } from '../lib/betLifecycle';
+import { formatMon, formatSignedMon } from '../lib/format';
+
+interface BatchResultsProps {
+  // Every tracked bet; the ones without a batch are ignored
+  bets: TrackedBet[];
+  onDismiss: (id: string) => void;
+}
+
+function cell({ state }: TrackedBet) {
+  switch (state.phase) {
+    case 'revealed':
+      return state.won
+        ? { text: formatSignedMon(state.payout - state.bet.amount, 3), className: 'border-green-500/60 text-green-600 dark:text-green-400' }
+        : { text: formatSignedMon(-state.bet.amount, 3), className: 'border-red-500/60 text-red-600 dark:text-red-400' };
+    case 'cancelled':
+      return { text: 'Refunded', className: 'border-gray-400/60 text-gray-500 dark:text-white/50' };
+    case 'failed':
+      return { text: 'Failed', className: 'border-red-500/60 text-red-600 dark:text-red-400' };
+    case 'signing':
+      return { text: 'Sign…', className: 'border-yellow-500/60 text-yellow-600 dark:text-yellow-400 animate-pulse' };
+    default:
+      return { text: 'Flipping…', className: 'border-yellow-500/60 text-yellow-600 dark:text-yellow-400 animate-pulse' };
+  }
+}
+
+function BatchGrid({ bets, onDismiss }: { bets: TrackedBet[]; onDismiss: (id: string) => void }) {
+  let net = BigInt(0);
+  let settled = 0;
+  for (const { state } of bets) {
+    if (state.phase === 'revealed') net += state.won ? state.payout - state.bet.amount : -state.bet.amount;
+    if (state.phase === 'revealed' || state.phase === 'cancelled' || state.phase === 'failed') settled++;
+  }
+  const done = settled === bets.length;
+
+  return (
+    <div className="p-4 bg-white/10 dark:bg-gray-700/50 backdrop-blur-xl border border-gray-300/50 dark:border-white/20 rounded-2xl">
+      <div className="flex items-center justify-between text-sm mb-3">
+        <span className="text-gray-700 dark:text-white/70">
+          Batch · {settled}/{bets.length} settled
+        </span>
+        <span className="flex items-center gap-3">
+          <span className={`font-semibold ${net < BigInt(0) ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {formatSignedMon(net, 3)}
+          </span>
+          {done && (
+            <button
+              onClick={() => bets.forEach((bet) => onDismiss(bet.id))}
+              className="text-gray-500 dark:text-white/50 hover:text-gray-900 dark:hover:text-white"
+              aria-label="Dismiss batch"
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2">
+        {bets.map((bet) => {
+          const { state } = bet;
+          if (state.phase === 'idle') return null;
+          const { text, className } = cell(bet);
+          const gameId = 'gameId' in state ? state.gameId : undefined;
+          const side = state.phase === 'revealed' ? state.result : state.bet.choice;
+          const content = (
+            <>
+              <span className="text-lg font-bold">{side === 0 ? 'H' : 'T'}</span>
+              <span className="text-[10px]">{text}</span>
+              <span className="text-[10px] text-gray-500 dark:text-white/40">{formatMon(state.bet.amount, 3)}</span>
+            </>
+          );
+          const cellClass = `flex flex-col items-center py-2 rounded-xl border bg-white/5 ${className}`;
+
+          return gameId !== undefined ? (
+            <Link key={bet.id} href={`/verify/${gameId.toString()}`} className={`${cellClass} hover:bg-white/10`} title={`Game #${gameId.toString()}`}>
+              {content}
+            </Link>
+          ) : (
+            <div key={bet.id} className={cellClass} title={state.phase === 'failed' ? state.error : undefined}>
+              {content}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// One results grid per batch, newest first
+export function BatchResults({ bets, onDismiss }: BatchResultsProps) {
+  const batches = new Map<string, TrackedBet[]>();
+  for (const bet of bets) {
+    if (!bet.batch) continue;
+    batches.set(bet.batch, [...(batches.get(bet.batch) ?? []), bet]);
+  }
+  if (batches.size === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      {[...batches.entries()].reverse().map(([batch, batchBets]) => (
+        <BatchGrid key={batch} bets={batchBets} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { formatEther } from 'viem';
+import { betPayout, betValue } from '../lib/betValidation';
+
+interface BetBreakdownProps {
+  amount: bigint;
+  entropyFee: bigint;
+  houseEdgeBps: bigint;
+  // Why placeBet would revert, if it would
+  issue: string | null;
+}
+
+// Exact amounts of the placeBet call, in MON and wei
+export function BetBreakdown({ amount, entropyFee, houseEdgeBps, issue }: BetBreakdownProps) {
+  const rows: [label: string, wei: bigint][] = [
+    ['Bet', amount],
+    ['Pyth Entropy fee', entropyFee],
+    ['Total sent', betValue(amount, entropyFee)],
+  ];
+
+  return (
+    <div className="mt-3 p-3 text-xs bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 rounded-2xl space-y-1 text-gray-600 dark:text-white/60">
+      {rows.map(([label, wei], index) => (
+        <div
+          key={label}
+          className={`flex justify-between gap-3 ${index === rows.length - 1 ? 'font-semibold text-gray-900 dark:text-white' : ''}`}
+        >
+          <span>{label}</span>
+          <span className="text-right font-mono">
+            {formatEther(wei)} MON
+            <span className="block text-[10px] font-normal text-gray-500 dark:text-white/40">{wei.toString()} wei</span>
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-3 pt-1 border-t border-gray-300/50 dark:border-white/10">
+        <span>Paid if you win</span>
+        <span className="font-mono">{formatEther(betPayout(amount, houseEdgeBps))} MON</span>
+      </div>
+      {issue && <p className="pt-1 text-red-600 dark:text-red-400">{issue}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useWaitForTransactionReceipt, useWriteContract } from 'wagmi';
+import { COIN_FLIP_ADDRESS, COIN_FLIP_ABI } from '../config/contract';
+import { usePreflight } from '../hooks/usePreflight';
+import { describeError } from '../lib/errors';
+import { PreflightSummary } from './PreflightSummary';
+
+// CoinFlipV2.cancelGame only accepts games older than one hour
+export const CANCEL_DELAY_SECONDS = 60 * 60;
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+interface CancelGameButtonProps {
+  gameId: bigint;
+  timestamp: bigint;
+  // Current unix time in seconds, ticked by the parent so every row shares one timer
+  now: number;
+  onCancelled: (gameId: bigint) => void;
+}
+
+export function CancelGameButton({ gameId, timestamp, now, onCancelled }: CancelGameButtonProps) {
+  const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed, error: receiptError } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (isConfirmed) onCancelled(gameId);
+  }, [isConfirmed, gameId, onCancelled]);
+
+  const secondsLeft = Number(timestamp) + CANCEL_DELAY_SECONDS - now;
+  const error = writeError ?? receiptError;
+  // Only simulated once the delay has passed; before that it would always revert
+  const preflight = usePreflight(secondsLeft < 0 && !isConfirmed ? { functionName: 'cancelGame', args: [gameId] } : null);
+
+  if (secondsLeft >= 0) {
+    return (
+      <p className="text-xs text-yellow-600 dark:text-yellow-400">
+        Waiting for Pyth Entropy. Refund available in {formatCountdown(secondsLeft + 1)}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() =>
+          writeContract({
+            address: COIN_FLIP_ADDRESS,
+            abi: COIN_FLIP_ABI,
+            functionName: 'cancelGame',
+            args: [gameId],
+          })
+        }
+        disabled={isPending || isConfirming || preflight.data?.ok === false}
+        className="w-full px-4 py-2 bg-gradient-to-b from-red-500 to-red-600 text-white text-sm font-semibold rounded-xl shadow-lg hover:shadow-xl active:scale-95 transform transition-all duration-200 ease-out disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+      >
+        {isPending ? 'Confirm in wallet...' : isConfirming ? 'Cancelling...' : 'Cancel & refund'}
+      </button>
+      {!error && <PreflightSummary result={preflight.data} isLoading={preflight.isLoading} />}
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{describeError(error)}</p>
+      )}
+    </div>
+  );
+}
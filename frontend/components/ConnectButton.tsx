@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { useAccount, useConnect, useDisconnect, useSwitchChain } from 'wagmi';
-import { monadTestnet } from '@/config/chains';
+import { ACTIVE_CHAIN } from '@/config/chains';
+import { shortenAddress } from '@/lib/format';
 
 export function ConnectButton() {
   const { address, isConnected, chain } = useAccount();
@@ -11,7 +12,7 @@ export function ConnectButton() {
   const { switchChain } = useSwitchChain();
   const [showWalletOptions, setShowWalletOptions] = useState(false);
 
-  const isWrongNetwork = isConnected && chain?.id !== monadTestnet.id;
+  const isWrongNetwork = isConnected && chain?.id !== ACTIVE_CHAIN.id;
 
   // Deduplicate connectors by name
   const uniqueConnectors = connectors.reduce((acc, connector) => {
@@ -22,7 +23,7 @@ export function ConnectButton() {
   }, [] as (typeof connectors)[number][]);
 
   const handleSwitchNetwork = () => {
-    switchChain({ chainId: monadTestnet.id });
+    switchChain({ chainId: ACTIVE_CHAIN.id });
   };
 
   const handleConnectWallet = (connector: (typeof connectors)[number]) => {
@@ -38,12 +39,12 @@ export function ConnectButton() {
             onClick={handleSwitchNetwork}
             className="px-4 py-2 bg-gradient-to-b from-yellow-500 to-yellow-600 text-white font-semibold rounded-2xl shadow-lg hover:shadow-xl active:scale-95 transform transition-all duration-200 ease-out"
           >
-            Switch to Monad
+            Switch to {ACTIVE_CHAIN.name}
           </button>
         )}
         <div className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-lg">
           <p className="text-sm font-medium text-white/90">
-            {address.slice(0, 6)}...{address.slice(-4)}
+            {shortenAddress(address)}
           </p>
         </div>
         <button
@@ -1,13 +1,16 @@
 'use client';
 
 import { useState } from 'react';
+import { useHouseEdge } from '../hooks/useHouseEdge';
+import { formatHouseEdge, formatMultiplier, MAX_HOUSE_EDGE_BPS, MIN_HOUSE_EDGE_BPS } from '../lib/houseEdge';
 
 interface FAQModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const faqs = [
+// The payout answers quote the contract's current house edge
+const buildFaqs = (houseEdgeBps: bigint) => [
   {
     question: 'What is Monad Coin Flip?',
     answer: 'Monad Coin Flip is a provably fair coin flip game built on the Monad blockchain. It uses Pyth Entropy to generate verifiable random numbers, ensuring complete fairness and transparency in every game.',
@@ -16,6 +19,10 @@ const faqs = [
     question: 'How does the randomness work?',
     answer: 'We use Pyth Entropy, a cutting-edge on-chain randomness solution. The randomness is generated using both user-provided randomness and provider-generated randomness, making it impossible to predict or manipulate the outcome.',
   },
+  {
+    question: 'How can I check that a game was fair?',
+    answer: 'Open a game in your history and click "Verify", or go to /verify/<game id>. The page finds the Pyth Entropy request made by your bet, reads the random number that was revealed for it, and recomputes the result (random number modulo 2) and the payout, at the house edge your bet was placed with, exactly like the contract does.',
+  },
   {
     question: 'What wallets are supported?',
     answer: 'We currently support MetaMask and Phantom wallet. Simply click "Connect Wallet" and choose your preferred wallet to get started.',
@@ -26,16 +33,20 @@ const faqs = [
   },
   {
     question: 'What is the payout rate?',
-    answer: 'When you win, you receive 1.9x your bet amount. The house takes a 5% fee to maintain the platform and cover gas costs.',
+    answer: `When you win, you receive ${formatMultiplier(houseEdgeBps)} your bet amount. The house takes a ${formatHouseEdge(houseEdgeBps)} fee to maintain the platform and cover gas costs. The owner can set the fee between ${formatHouseEdge(MIN_HOUSE_EDGE_BPS)} and ${formatHouseEdge(MAX_HOUSE_EDGE_BPS)}, and every bet is paid at the rate in effect when it was placed.`,
   },
   {
     question: 'How do I switch to Monad Testnet?',
-    answer: 'If you\'re on the wrong network, click the "Switch to Monad" button that appears when you connect your wallet. Your wallet will prompt you to add and switch to the Monad Testnet network.',
+    answer: 'If you\'re on the wrong network, click the "Switch to Monad Testnet" button that appears when you connect your wallet. Your wallet will prompt you to add and switch to the Monad Testnet network.',
   },
   {
     question: 'How long does it take to see results?',
     answer: 'Results are typically revealed within a few seconds after placing your bet. The exact time depends on network conditions and the Pyth Entropy provider.',
   },
+  {
+    question: 'What if my result never arrives?',
+    answer: 'If Pyth Entropy has not delivered a result one hour after your bet, open the pending game in your history and click "Cancel & refund". Your bet amount is returned to your wallet; the entropy fee is not refunded.',
+  },
   {
     question: 'Is this real money?',
     answer: 'No! This is running on Monad Testnet, which uses test tokens (MON) that have no real-world value. This is for testing and demonstration purposes only.',
@@ -52,6 +63,7 @@ const faqs = [
 
 export function FAQModal({ isOpen, onClose }: FAQModalProps) {
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const faqs = buildFaqs(useHouseEdge().houseEdgeBps);
 
   if (!isOpen) return null;
 
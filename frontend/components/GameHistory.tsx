@@ -1,46 +1,46 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useAccount, useReadContract } from 'wagmi';
-import { formatEther } from 'viem';
+import { formatEther, isAddressEqual } from 'viem';
 import { COIN_FLIP_ADDRESS, COIN_FLIP_ABI } from '../config/contract';
+import { useLiveEvents } from '../hooks/useLiveEvents';
+import { usePlayerGameIds, usePlayerStats } from '../hooks/usePlayerGames';
+import { CancelGameButton } from './CancelGameButton';
+import { playerExportUrl } from '../lib/api/client';
+import { formatMon } from '../lib/format';
+import { readGames } from '../lib/gameCache';
+import type { PlayerGame } from '../lib/player';
 
-interface Game {
-  player: string;
-  betAmount: bigint;
-  playerChoice: number;
-  result: number;
-  won: boolean;
-  payout: bigint;
-  timestamp: bigint;
-  state: number;
-  entropySequenceNumber: bigint;
-  userRandomness: string;
-}
-
-interface GameWithId {
-  id: bigint;
-  game: Game;
-}
+// Games loaded per page, newest first
+const PAGE_SIZE = 10;
 
 export function GameHistory() {
   const { address, isConnected } = useAccount();
-  const [games, setGames] = useState<GameWithId[]>([]);
+  const [games, setGames] = useState<PlayerGame[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [expandedGames, setExpandedGames] = useState<Set<string>>(new Set());
   const [isHistoryCollapsed, setIsHistoryCollapsed] = useState(false);
-  const [showAllGames, setShowAllGames] = useState(false);
-
-  // Get player's game IDs
-  const { data: gameIds, refetch: refetchGameIds } = useReadContract({
-    address: COIN_FLIP_ADDRESS,
-    abi: COIN_FLIP_ABI,
-    functionName: 'getPlayerGames',
-    args: address ? [address] : undefined,
-    query: {
-      enabled: !!address,
-    },
-  });
+  // Pages of games loaded so far; older pages are read when asked for
+  const [pageCount, setPageCount] = useState(1);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  // Bumped to reload the game details when one of the player's games is revealed
+  const [refreshCount, setRefreshCount] = useState(0);
+  // Optional date range of the export, as `YYYY-MM-DD`
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+
+  // IDs of the loaded pages, newest first
+  const {
+    data: idPage,
+    refetch: refetchGameIds,
+    isPlaceholderData: isLoadingMore,
+  } = usePlayerGameIds(address, pageCount * PAGE_SIZE);
+  const gameIds = idPage?.ids;
+
+  // Totals kept by the contract, so they cover every game and not only the loaded pages
+  const { data: stats, refetch: refetchStats } = usePlayerStats(address);
 
   // Get entropy fee
   const { data: entropyFee } = useReadContract({
@@ -49,59 +49,84 @@ export function GameHistory() {
     functionName: 'getEntropyFee',
   });
 
-  // Fetch individual game details
+  // Start again from the newest page when the account changes
+  useEffect(() => {
+    setPageCount(1);
+  }, [address]);
+
+  // Fetch the details of the loaded pages; settled games come from the cache, so only pending
+  // and newly loaded games are read from the chain
   useEffect(() => {
+    let cancelled = false;
+
     const fetchGames = async () => {
-      if (!gameIds || !Array.isArray(gameIds) || gameIds.length === 0) {
+      if (!address || !gameIds || gameIds.length === 0) {
         setGames([]);
         setIsLoading(false);
         return;
       }
 
-      setIsLoading(true);
-      const gamesData: GameWithId[] = [];
-
-      // Fetch each game individually using viem directly
-      const { createPublicClient, http } = await import('viem');
-      const { monadTestnet } = await import('../config/chains');
-
-      const publicClient = createPublicClient({
-        chain: monadTestnet,
-        transport: http('https://testnet-rpc.monad.xyz'),
-      });
-
-      for (const gameId of gameIds) {
-        try {
-          const game = await publicClient.readContract({
-            address: COIN_FLIP_ADDRESS,
-            abi: COIN_FLIP_ABI,
-            functionName: 'getGame',
-            args: [gameId],
-          }) as Game;
-
-          gamesData.push({ id: gameId, game });
-        } catch (error) {
-          console.error(`Error fetching game ${gameId}:`, error);
-        }
+      try {
+        const gamesData = await readGames(gameIds);
+        if (!cancelled) setGames(gamesData);
+      } catch (error) {
+        console.error('[GameHistory] Error fetching games:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
       }
-
-      setGames(gamesData.reverse()); // Show most recent first
-      setIsLoading(false);
     };
 
     fetchGames();
-  }, [gameIds]);
+    return () => {
+      cancelled = true;
+    };
+  }, [gameIds, address, refreshCount]);
 
-  // Refresh every 10 seconds
+  // Tick once a second while any game is pending to drive the cancel countdowns
+  const hasPendingGames = games.some(({ game }) => game.state === 0);
   useEffect(() => {
-    if (!isConnected) return;
+    if (!hasPendingGames) return;
 
     const interval = setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [hasPendingGames]);
+
+  const handleCancelled = useCallback((gameId: bigint) => {
+    setGames(prev =>
+      prev.map(entry => (entry.id === gameId ? { ...entry, game: { ...entry.game, state: 2 } } : entry))
+    );
+  }, []);
+
+  // New bets add game ids, results change the games behind them
+  const { connected: isLive } = useLiveEvents((event) => {
+    if (!address) return;
+    if (event.type === 'reset') {
+      refetchGameIds();
+      refetchStats();
+      setRefreshCount((count) => count + 1);
+    } else if (event.log.event === 'BetPlaced' && isAddressEqual(event.log.player, address)) {
       refetchGameIds();
+      refetchStats();
+    } else if (event.log.event === 'GameResult' && isAddressEqual(event.log.player, address)) {
+      refetchStats();
+      setRefreshCount((count) => count + 1);
+    }
+  });
+
+  // Refresh every 10 seconds while the event stream is down
+  useEffect(() => {
+    if (!isConnected || isLive) return;
+
+    const interval = setInterval(() => {
+      refetchGameIds();
+      refetchStats();
     }, 10000);
 
     return () => clearInterval(interval);
-  }, [isConnected, refetchGameIds]);
+  }, [isConnected, isLive, refetchGameIds, refetchStats]);
 
   if (!isConnected) {
     return null;
@@ -138,7 +163,7 @@ export function GameHistory() {
   const getStateText = (state: number) => {
     switch (state) {
       case 0: return 'Pending';
-      case 1: return 'Completed';
+      case 1: return 'Revealed';
       case 2: return 'Cancelled';
       default: return 'Unknown';
     }
@@ -161,36 +186,50 @@ export function GameHistory() {
     });
   };
 
-  // Show only last 5 games by default
-  const displayedGames = showAllGames ? games : games.slice(0, 5);
-  const hasMoreGames = games.length > 5;
+  const olderGames = idPage ? idPage.total - idPage.ids.length : 0;
+
 
   return (
     <div className="w-full max-w-2xl mx-auto p-8 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl">
       {/* Header with Collapse Button */}
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Game History</h2>
-        <button
-          onClick={() => setIsHistoryCollapsed(!isHistoryCollapsed)}
-          className="p-2 rounded-lg hover:bg-white/10 dark:hover:bg-gray-700/50 transition-colors"
-          aria-label="Toggle history"
-        >
-          <svg
-            className={`w-5 h-5 text-gray-600 dark:text-white/70 transition-transform ${isHistoryCollapsed ? 'rotate-180' : ''}`}
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
+        <div className="flex items-center gap-2">
+          {address && (
+            <Link href={`/player/${address}`} className="text-sm font-medium text-purple-600 dark:text-purple-400 hover:underline">
+              Public profile
+            </Link>
+          )}
+          <button
+            onClick={() => setIsHistoryCollapsed(!isHistoryCollapsed)}
+            className="p-2 rounded-lg hover:bg-white/10 dark:hover:bg-gray-700/50 transition-colors"
+            aria-label="Toggle history"
           >
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-          </svg>
-        </button>
+            <svg
+              className={`w-5 h-5 text-gray-600 dark:text-white/70 transition-transform ${isHistoryCollapsed ? 'rotate-180' : ''}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
       </div>
 
       {/* Collapsible Content */}
       {!isHistoryCollapsed && (
         <>
+          {/* Lifetime totals */}
+          {stats && stats.gamesPlayed > BigInt(0) && (
+            <p className="mb-4 text-sm text-gray-600 dark:text-white/60">
+              {stats.gamesPlayed.toString()} games, {stats.gamesWon.toString()} won · {formatMon(stats.totalWagered)} MON
+              wagered · {formatMon(stats.totalPaidOut)} MON paid out
+            </p>
+          )}
+
           <div className="space-y-2">
-            {displayedGames.map(({ id, game }) => {
+            {games.map(({ id, game }) => {
               const isExpanded = expandedGames.has(id.toString());
 
               return (
@@ -214,20 +253,24 @@ export function GameHistory() {
                       <span className={`text-sm font-medium ${
                         game.state === 1
                           ? (game.won ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400')
-                          : 'text-yellow-600 dark:text-yellow-400'
+                          : game.state === 2
+                            ? 'text-gray-500 dark:text-white/50'
+                            : 'text-yellow-600 dark:text-yellow-400'
                       }`}>
-                        {game.state === 1 ? (game.won ? 'WIN' : 'LOSE') : 'PENDING'}
+                        {game.state === 1 ? (game.won ? 'WIN' : 'LOSE') : getStateText(game.state).toUpperCase()}
                       </span>
                     </div>
 
                     {/* Profit/Loss */}
                     <div className="flex items-center gap-3">
                       <span className={`text-sm font-semibold ${
-                        game.won ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                        game.state === 2
+                          ? 'text-gray-500 dark:text-white/50'
+                          : game.won ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
                       }`}>
                         {game.state === 1
                           ? (game.won ? `+${formatEther(game.payout)} MON` : `-${formatEther(game.betAmount)} MON`)
-                          : '-'
+                          : game.state === 2 ? 'Refunded' : '-'
                         }
                       </span>
 
@@ -246,11 +289,27 @@ export function GameHistory() {
                   {/* Expanded View - Details */}
                   {isExpanded && (
                     <div className="px-4 pb-4 pt-2 border-t border-white/10 dark:border-gray-600/50 space-y-3">
-                      {/* Timestamp */}
-                      <div className="text-xs text-gray-500 dark:text-white/40">
-                        {formatTimestamp(game.timestamp)}
+                      {/* Timestamp and verification link */}
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-gray-500 dark:text-white/40">{formatTimestamp(game.timestamp)}</span>
+                        <Link
+                          href={`/verify/${id.toString()}`}
+                          className="font-medium text-purple-600 dark:text-purple-400 hover:underline"
+                        >
+                          Verify
+                        </Link>
                       </div>
 
+                      {/* Refund for games stuck waiting on the entropy callback */}
+                      {game.state === 0 && (
+                        <CancelGameButton
+                          gameId={id}
+                          timestamp={game.timestamp}
+                          now={now}
+                          onCancelled={handleCancelled}
+                        />
+                      )}
+
                       {/* Game Details */}
                       <div className="grid grid-cols-2 gap-4">
                         <div>
@@ -291,15 +350,50 @@ export function GameHistory() {
             })}
           </div>
 
-          {/* Show More/Less Button */}
-          {hasMoreGames && (
+          {/* Load Older Games Button */}
+          {olderGames > 0 && (
             <button
-              onClick={() => setShowAllGames(!showAllGames)}
-              className="w-full mt-4 px-4 py-3 bg-white/5 dark:bg-gray-700/30 backdrop-blur-xl border border-white/10 dark:border-gray-600/50 rounded-xl hover:bg-white/10 dark:hover:bg-gray-600/30 transition-colors text-sm font-medium text-gray-700 dark:text-white/70"
+              onClick={() => setPageCount((count) => count + 1)}
+              disabled={isLoadingMore}
+              className="w-full mt-4 px-4 py-3 bg-white/5 dark:bg-gray-700/30 backdrop-blur-xl border border-white/10 dark:border-gray-600/50 rounded-xl hover:bg-white/10 dark:hover:bg-gray-600/30 transition-colors text-sm font-medium text-gray-700 dark:text-white/70 disabled:opacity-50"
             >
-              {showAllGames ? `Hide ${games.length - 5} older games` : `Show ${games.length - 5} more games`}
+              {isLoadingMore ? 'Loading...' : `Load ${Math.min(olderGames, PAGE_SIZE)} older games (${olderGames} left)`}
             </button>
           )}
+
+          {/* Export every game, not only the ones shown */}
+          {address && (
+            <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-white/70">
+              <span className="font-medium">Export</span>
+              <input
+                type="date"
+                value={exportFrom}
+                max={exportTo || undefined}
+                onChange={(e) => setExportFrom(e.target.value)}
+                aria-label="Export from"
+                className="px-2 py-1 bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 rounded-lg"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={exportTo}
+                min={exportFrom || undefined}
+                onChange={(e) => setExportTo(e.target.value)}
+                aria-label="Export to"
+                className="px-2 py-1 bg-white/10 dark:bg-gray-700/50 border border-gray-300/50 dark:border-white/20 rounded-lg"
+              />
+              {(['csv', 'json'] as const).map((format) => (
+                <a
+                  key={format}
+                  href={playerExportUrl(address, format, { from: exportFrom, to: exportTo })}
+                  download
+                  className="px-3 py-1 rounded-lg font-medium bg-white/5 dark:bg-gray-700/30 border border-white/10 dark:border-gray-600/50 hover:bg-white/10 dark:hover:bg-gray-600/30 transition-colors"
+                >
+                  {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,197 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatEther, type Hash } from 'viem';
+import { ACTIVE_CHAIN } from '../config/chains';
+import { publicClient } from '../config/client';
+import { COIN_FLIP_ADDRESS, COIN_FLIP_DEPLOYMENT, COIN_FLIP_VERSION } from '../config/contract';
+import { parseGameId } from '../lib/api/games';
+import { shortenAddress } from '../lib/format';
+import { formatHouseEdge } from '../lib/houseEdge';
+import type { IndexedGame } from '../lib/indexer/types';
+import { verifyGame, type CheckStatus, type Verdict } from '../lib/verify';
+
+interface GameVerificationProps {
+  gameId: string;
+}
+
+const VERDICT_STYLES: Record<Verdict, { title: string; className: string }> = {
+  pass: {
+    title: '✅ Verified: the result follows from the revealed random number',
+    className: 'bg-green-500/10 border-green-500/30 text-green-700 dark:text-green-300',
+  },
+  fail: {
+    title: '❌ Verification failed',
+    className: 'bg-red-500/10 border-red-500/30 text-red-700 dark:text-red-300',
+  },
+  incomplete: {
+    title: '⏳ Nothing to verify yet',
+    className: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-700 dark:text-yellow-300',
+  },
+};
+
+const CHECK_ICONS: Record<CheckStatus, string> = {
+  pass: '✅',
+  fail: '❌',
+  skipped: '⏭️',
+};
+
+const STATE_NAMES = ['Pending', 'Revealed', 'Cancelled'];
+
+// Indexed transaction hashes save a log scan, but verification works without them
+async function fetchIndexedGame(gameId: string): Promise<IndexedGame | null> {
+  try {
+    const response = await fetch(`/api/v1/games/${gameId}`);
+    if (!response.ok) return null;
+    const { data } = (await response.json()) as { data: IndexedGame };
+    return data;
+  } catch (error) {
+    console.warn('[Verify] Indexer unavailable, scanning logs instead:', error);
+    return null;
+  }
+}
+
+function TxLink({ hash }: { hash: Hash }) {
+  const explorer = ACTIVE_CHAIN.blockExplorers?.default.url;
+  const short = `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
+  if (!explorer) return <span className="font-mono">{short}</span>;
+  return (
+    <a href={`${explorer}/tx/${hash}`} target="_blank" rel="noopener noreferrer" className="font-mono text-purple-600 dark:text-purple-400 hover:underline">
+      {short}
+    </a>
+  );
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between items-center gap-4 text-sm py-1">
+      <span className="text-gray-500 dark:text-white/50">{label}</span>
+      <span className="text-gray-900 dark:text-white text-right break-all">{children}</span>
+    </div>
+  );
+}
+
+export function GameVerification({ gameId }: GameVerificationProps) {
+  const parsed = parseGameId(gameId);
+
+  const { data: verification, isLoading, error } = useQuery({
+    queryKey: ['verify', gameId],
+    enabled: parsed.error === undefined,
+    queryFn: async () => {
+      const indexed = await fetchIndexedGame(gameId);
+      return verifyGame({
+        client: publicClient,
+        address: COIN_FLIP_ADDRESS,
+        gameId: BigInt(gameId),
+        version: COIN_FLIP_VERSION,
+        fromBlock: COIN_FLIP_DEPLOYMENT.startBlock === undefined ? undefined : BigInt(COIN_FLIP_DEPLOYMENT.startBlock),
+        betTxHash: indexed?.betTxHash as Hash | undefined,
+        resultTxHash: indexed?.resultTxHash as Hash | null | undefined,
+      });
+    },
+    // Keep checking while the game waits for its random number
+    refetchInterval: (query) => (query.state.data?.verdict === 'incomplete' && query.state.data.game.state === 0 ? 5000 : false),
+  });
+
+  const panelClass = 'w-full p-6 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl';
+
+  if (parsed.error !== undefined) {
+    return <div className={`${panelClass} text-red-600 dark:text-red-400`}>Invalid game id: {parsed.error}</div>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className={`${panelClass} flex items-center justify-center py-12`}>
+        <div className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className={`${panelClass} text-red-600 dark:text-red-400`}>Could not load game #{gameId}: {error.message}</div>;
+  }
+
+  if (!verification) {
+    return <div className={`${panelClass} text-gray-700 dark:text-white/70`}>Game #{gameId} does not exist.</div>;
+  }
+
+  const { game, request, reveal, expected, checks, verdict } = verification;
+  const choiceText = (value: number) => (value === 0 ? 'Heads' : 'Tails');
+
+  return (
+    <div className="space-y-6">
+      <div className={`p-4 border rounded-2xl font-semibold ${VERDICT_STYLES[verdict].className}`}>
+        {VERDICT_STYLES[verdict].title}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* On-chain game */}
+        <div className={panelClass}>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-3">Game #{gameId}</h3>
+          <Row label="Player">
+            <span className="font-mono">{shortenAddress(game.player)}</span>
+          </Row>
+          <Row label="State">{STATE_NAMES[game.state] ?? 'Unknown'}</Row>
+          <Row label="Bet">{formatEther(game.betAmount)} MON</Row>
+          <Row label="Choice">{choiceText(game.playerChoice)}</Row>
+          <Row label="Result">{game.state === 1 ? choiceText(game.result) : '-'}</Row>
+          <Row label="Payout">{formatEther(game.payout)} MON</Row>
+          {verification.betTxHash && <Row label="Bet transaction"><TxLink hash={verification.betTxHash} /></Row>}
+        </div>
+
+        {/* Entropy request and reveal */}
+        <div className={panelClass}>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-3">Pyth Entropy</h3>
+          {request ? (
+            <>
+              <Row label="Entropy contract"><span className="font-mono">{shortenAddress(request.entropy)}</span></Row>
+              <Row label="Provider"><span className="font-mono">{shortenAddress(request.provider)}</span></Row>
+              <Row label="Sequence number">{request.sequenceNumber.toString()}</Row>
+              <Row label="Request status">{request.open ? 'Waiting for reveal' : 'Fulfilled'}</Row>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-white/50">No entropy request found</p>
+          )}
+          {reveal && (
+            <>
+              {reveal.providerRevelation && (
+                <Row label="Provider revelation"><span className="font-mono text-xs">{reveal.providerRevelation}</span></Row>
+              )}
+              <Row label="Random number"><span className="font-mono text-xs">{reveal.randomNumber}</span></Row>
+              <Row label="Reveal transaction"><TxLink hash={reveal.txHash} /></Row>
+            </>
+          )}
+          {expected && (
+            <div className="mt-3 pt-3 border-t border-white/10 dark:border-gray-600/50">
+              <Row label="randomNumber % 2">{expected.result} ({choiceText(expected.result)})</Row>
+              <Row label="House edge">{formatHouseEdge(expected.houseEdgeBps)}</Row>
+              <Row label="Expected payout">{formatEther(expected.payout)} MON</Row>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Individual checks */}
+      <div className={panelClass}>
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-3">Checks</h3>
+        <div className="space-y-2">
+          {checks.map((item) => (
+            <div
+              key={item.label}
+              className="flex items-start justify-between gap-4 text-sm px-3 py-2 bg-white/5 dark:bg-gray-700/30 border border-white/10 dark:border-gray-600/50 rounded-xl"
+            >
+              <span className="text-gray-900 dark:text-white">
+                {CHECK_ICONS[item.status]} {item.label}
+              </span>
+              <span className="text-right text-gray-600 dark:text-white/60 font-mono text-xs break-all">
+                {item.status === 'skipped' ? item.expected : item.status === 'pass' ? item.actual : `expected ${item.expected}, got ${item.actual}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { useAccount } from 'wagmi';
+import type { Leaderboard as LeaderboardData, LeaderboardSort, LeaderboardWindow } from '../lib/api/leaderboard';
+import { formatMon, formatSignedMon, shortenAddress } from '../lib/format';
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  '24h': '24 hours',
+  '7d': '7 days',
+  all: 'All time',
+};
+
+const SORT_LABELS: Record<LeaderboardSort, string> = {
+  profit: 'Net profit',
+  volume: 'Volume',
+  games: 'Games',
+  streak: 'Win streak',
+};
+
+const RANK_BADGES = ['🥇', '🥈', '🥉'];
+
+export function Leaderboard() {
+  const { address } = useAccount();
+  const [period, setPeriod] = useState<LeaderboardWindow>('7d');
+  const [sort, setSort] = useState<LeaderboardSort>('profit');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['leaderboard', period, sort],
+    queryFn: async () => {
+      const response = await fetch(`/api/v1/leaderboard?${new URLSearchParams({ window: period, sort })}`);
+      if (!response.ok) throw new Error(`Leaderboard request failed with status ${response.status}`);
+      return (await response.json()) as LeaderboardData;
+    },
+    refetchInterval: 30000,
+  });
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+      active
+        ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg'
+        : 'bg-white/10 dark:bg-gray-800/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-700 dark:text-gray-300 hover:bg-white/20 dark:hover:bg-gray-700/50'
+    }`;
+
+  return (
+    <div className="w-full p-6 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex gap-2">
+          {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[]).map((value) => (
+            <button key={value} onClick={() => setPeriod(value)} className={tabClass(period === value)}>
+              {WINDOW_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(SORT_LABELS) as LeaderboardSort[]).map((value) => (
+            <button key={value} onClick={() => setSort(value)} className={tabClass(sort === value)}>
+              {SORT_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+
+      {error && <p className="text-red-600 dark:text-red-400">Could not load the leaderboard: {error.message}</p>}
+
+      {data && data.data.length === 0 && (
+        <p className="text-center text-gray-600 dark:text-white/60 py-12">No revealed games in this period yet</p>
+      )}
+
+      {data && data.data.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-white/50 border-b border-white/10 dark:border-gray-600/50">
+                <th className="py-2 pr-4 font-medium">#</th>
+                <th className="py-2 pr-4 font-medium">Player</th>
+                <th className="py-2 pr-4 font-medium text-right">Net profit</th>
+                <th className="py-2 pr-4 font-medium text-right">Wagered</th>
+                <th className="py-2 pr-4 font-medium text-right">Games</th>
+                <th className="py-2 font-medium text-right">Best streak</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.data.map((entry) => {
+                const isYou = !!address && entry.player.toLowerCase() === address.toLowerCase();
+                return (
+                  <tr
+                    key={entry.player}
+                    className={`border-b border-white/5 dark:border-gray-700/50 ${isYou ? 'bg-purple-500/10' : ''}`}
+                  >
+                    <td className="py-3 pr-4 text-gray-700 dark:text-white/70">{RANK_BADGES[entry.rank - 1] ?? entry.rank}</td>
+                    <td className="py-3 pr-4">
+                      <Link
+                        href={`/player/${entry.player}`}
+                        className="font-mono text-purple-600 dark:text-purple-400 hover:underline"
+                      >
+                        {shortenAddress(entry.player)}
+                      </Link>
+                      {isYou && <span className="ml-2 text-xs text-gray-500 dark:text-white/50">(you)</span>}
+                    </td>
+                    <td
+                      className={`py-3 pr-4 text-right font-semibold ${
+                        BigInt(entry.profit) < BigInt(0) ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                      }`}
+                    >
+                      {formatSignedMon(entry.profit, 3)}
+                    </td>
+                    <td className="py-3 pr-4 text-right text-gray-700 dark:text-white/70">
+                      {formatMon(entry.wagered, 3)} MON
+                    </td>
+                    <td className="py-3 pr-4 text-right text-gray-700 dark:text-white/70">
+                      {entry.wins}/{entry.games}
+                    </td>
+                    <td className="py-3 text-right text-gray-700 dark:text-white/70">{entry.longestWinStreak}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { isAddressEqual } from 'viem';
+import { useLiveEvents } from '../hooks/useLiveEvents';
+import { fetchGamePage } from '../lib/api/client';
+import { formatMon, shortenAddress } from '../lib/format';
+import { applyFeedLog, FEED_SIZE, flipFromGame, isSmallBet, SMALL_BET_THRESHOLD, type FeedFlip } from '../lib/liveFeed';
+
+const VISIBLE_FLIPS = 15;
+
+const sideLabel = (side: number) => (side === 0 ? 'Heads' : 'Tails');
+
+function Outcome({ flip }: { flip: FeedFlip }) {
+  if (flip.state === 'Pending') {
+    return <span className="text-yellow-600 dark:text-yellow-400 animate-pulse">Flipping...</span>;
+  }
+  if (flip.state === 'Cancelled') {
+    return <span className="text-gray-500 dark:text-white/50">Cancelled</span>;
+  }
+  return (
+    <span className={flip.won ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+      {flip.result !== null && `${sideLabel(flip.result)} · `}
+      {flip.won ? 'Won' : 'Lost'}
+    </span>
+  );
+}
+
+export function LiveFlips() {
+  const { address } = useAccount();
+  const [flips, setFlips] = useState<FeedFlip[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hideSmallBets, setHideSmallBets] = useState(false);
+  // Bumped to reload the feed when the stream can't replay what it missed
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchGamePage('/api/v1/games', { limit: String(FEED_SIZE) })
+      .then((page) => {
+        if (cancelled) return;
+        setFlips(page.data.map(flipFromGame));
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadCount]);
+
+  const { connected } = useLiveEvents((event) => {
+    if (event.type === 'reset') {
+      setReloadCount((count) => count + 1);
+    } else {
+      setFlips((current) => applyFeedLog(current, event.log));
+    }
+  });
+
+  const visible = (hideSmallBets ? flips.filter((flip) => !isSmallBet(flip)) : flips).slice(0, VISIBLE_FLIPS);
+
+  return (
+    <div className="w-full p-6 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="flex items-center gap-2 text-2xl font-bold text-gray-900 dark:text-white">
+          <span
+            className={`w-2.5 h-2.5 rounded-full ${connected ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`}
+            title={connected ? 'Live' : 'Reconnecting...'}
+          />
+          Live flips
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-white/70 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={hideSmallBets}
+            onChange={(e) => setHideSmallBets(e.target.checked)}
+            className="accent-purple-600"
+          />
+          Hide bets under {formatMon(SMALL_BET_THRESHOLD)} MON
+        </label>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+
+      {error && <p className="text-red-600 dark:text-red-400">Could not load recent flips: {error}</p>}
+
+      {!isLoading && !error && visible.length === 0 && (
+        <p className="text-center text-gray-600 dark:text-white/60 py-12">No flips yet. Waiting for the next bet...</p>
+      )}
+
+      {visible.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-white/50 border-b border-white/10 dark:border-gray-600/50">
+                <th className="py-2 pr-4 font-medium">Player</th>
+                <th className="py-2 pr-4 font-medium">Side</th>
+                <th className="py-2 pr-4 font-medium text-right">Bet</th>
+                <th className="py-2 pr-4 font-medium">Outcome</th>
+                <th className="py-2 pr-4 font-medium text-right">Payout</th>
+                <th className="py-2 font-medium text-right">Game</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((flip) => {
+                const isYou = !!address && isAddressEqual(flip.player, address);
+                return (
+                  <tr
+                    key={flip.gameId}
+                    className={`border-b border-white/5 dark:border-gray-700/50 ${isYou ? 'bg-purple-500/10' : ''}`}
+                  >
+                    <td className="py-3 pr-4">
+                      <Link
+                        href={`/player/${flip.player}`}
+                        className="font-mono text-purple-600 dark:text-purple-400 hover:underline"
+                      >
+                        {shortenAddress(flip.player)}
+                      </Link>
+                      {isYou && <span className="ml-2 text-xs text-gray-500 dark:text-white/50">(you)</span>}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700 dark:text-white/70">{sideLabel(flip.choice)}</td>
+                    <td className="py-3 pr-4 text-right text-gray-700 dark:text-white/70">
+                      {flip.betAmount !== null ? `${formatMon(flip.betAmount, 3)} MON` : '—'}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <Outcome flip={flip} />
+                    </td>
+                    <td className="py-3 pr-4 text-right text-gray-700 dark:text-white/70">
+                      {flip.won ? `${formatMon(flip.payout, 3)} MON` : '—'}
+                    </td>
+                    <td className="py-3 text-right">
+                      <Link href={`/verify/${flip.gameId}`} className="text-purple-600 dark:text-purple-400 hover:underline">
+                        #{flip.gameId}
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
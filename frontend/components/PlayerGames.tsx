@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CoinFlipV2GameState } from '../config/abi/CoinFlipV2';
+import { formatMon, formatSignedMon } from '../lib/format';
+import type { PlayerGame } from '../lib/player';
+
+interface PlayerGamesProps {
+  title: string;
+  // Newest first
+  games: PlayerGame[];
+  emptyText?: string;
+}
+
+const PAGE_SIZE = 20;
+
+function outcome({ game }: PlayerGame) {
+  if (game.state === CoinFlipV2GameState.Pending) return { text: 'PENDING', className: 'text-yellow-600 dark:text-yellow-400' };
+  if (game.state === CoinFlipV2GameState.Cancelled) return { text: 'REFUNDED', className: 'text-gray-500 dark:text-white/50' };
+  return game.won
+    ? { text: formatSignedMon(game.payout - game.betAmount, 3), className: 'text-green-600 dark:text-green-400' }
+    : { text: formatSignedMon(-game.betAmount, 3), className: 'text-red-600 dark:text-red-400' };
+}
+
+export function PlayerGames({ title, games, emptyText = 'No games yet' }: PlayerGamesProps) {
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  return (
+    <div className="w-full p-6 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl">
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+        {title} <span className="text-sm font-normal text-gray-500 dark:text-white/50">({games.length})</span>
+      </h3>
+
+      {games.length === 0 && <p className="text-center text-gray-600 dark:text-white/60 py-6">{emptyText}</p>}
+
+      <div className="space-y-2">
+        {games.slice(0, visible).map((entry) => {
+          const { id, game } = entry;
+          const { text, className } = outcome(entry);
+          return (
+            <div
+              key={id.toString()}
+              className="flex items-center justify-between gap-4 px-4 py-3 bg-white/5 dark:bg-gray-700/30 border border-white/10 dark:border-gray-600/50 rounded-xl text-sm"
+            >
+              <div className="flex items-center gap-4">
+                <span className="font-mono text-gray-600 dark:text-white/50">#{id.toString()}</span>
+                <span className="text-gray-700 dark:text-white/70">{formatMon(game.betAmount, 3)} MON</span>
+                <span className="text-gray-500 dark:text-white/50">{game.playerChoice === 0 ? 'Heads' : 'Tails'}</span>
+                <span className="hidden sm:inline text-xs text-gray-500 dark:text-white/40">
+                  {new Date(Number(game.timestamp) * 1000).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className={`font-semibold ${className}`}>{text}</span>
+                <Link href={`/verify/${id.toString()}`} className="text-xs font-medium text-purple-600 dark:text-purple-400 hover:underline">
+                  Verify
+                </Link>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {games.length > visible && (
+        <button
+          onClick={() => setVisible((count) => count + PAGE_SIZE)}
+          className="w-full mt-4 px-4 py-3 bg-white/5 dark:bg-gray-700/30 backdrop-blur-xl border border-white/10 dark:border-gray-600/50 rounded-xl hover:bg-white/10 dark:hover:bg-gray-600/30 transition-colors text-sm font-medium text-gray-700 dark:text-white/70"
+        >
+          Show {Math.min(PAGE_SIZE, games.length - visible)} more games
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Address } from 'viem';
+import { formatMon, formatSignedMon } from '../lib/format';
+import { buildPlayerProfile, fetchPlayerGames } from '../lib/player';
+import { PlayerGames } from './PlayerGames';
+import { PnlChart } from './PnlChart';
+
+interface PlayerProfileProps {
+  player: Address;
+}
+
+function StatCard({ label, value, detail }: { label: string; value: ReactNode; detail?: ReactNode }) {
+  return (
+    <div className="bg-white/60 dark:bg-gray-800/50 rounded-3xl p-6 border border-gray-200/50 dark:border-gray-700/50 shadow-sm">
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{label}</p>
+      <p className="text-2xl font-bold text-gray-900 dark:text-white">{value}</p>
+      {detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+// Public view of any address, read without a connected wallet
+export function PlayerProfile({ player }: PlayerProfileProps) {
+  const { data: games, isLoading, error } = useQuery({
+    queryKey: ['player', player],
+    queryFn: () => fetchPlayerGames(player),
+    refetchInterval: 15000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="w-10 h-10 border-4 border-purple-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !games) {
+    return <p className="text-center text-red-600 dark:text-red-400">Could not load games: {error?.message}</p>;
+  }
+
+  const profile = buildPlayerProfile(games);
+  const revealed = profile.wins + profile.losses;
+  const picks = profile.heads + profile.tails;
+  const headsShare = picks > 0 ? (profile.heads / picks) * 100 : 50;
+  const newestFirst = [...games].reverse();
+  const unresolved = [...profile.pending, ...profile.cancelled].sort((a, b) => (a.id < b.id ? 1 : -1));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          label="Games"
+          value={profile.totalGames}
+          detail={`${profile.wins} won, ${profile.losses} lost${revealed > 0 ? ` (${((profile.wins / revealed) * 100).toFixed(1)}%)` : ''}`}
+        />
+        <StatCard
+          label="Net P&L"
+          value={
+            <span className={profile.profit < BigInt(0) ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+              {formatSignedMon(profile.profit, 3)}
+            </span>
+          }
+          detail={`${formatMon(profile.wagered, 3)} MON wagered`}
+        />
+        <StatCard
+          label="Streaks"
+          value={`${profile.longestWinStreak}W / ${profile.longestLossStreak}L`}
+          detail={
+            profile.currentStreak
+              ? `Longest runs; current ${profile.currentStreak.length}${profile.currentStreak.kind === 'win' ? 'W' : 'L'}`
+              : 'Longest win and loss runs'
+          }
+        />
+        <StatCard
+          label="Heads / Tails"
+          value={`${profile.heads} / ${profile.tails}`}
+          detail={
+            <span className="flex h-2 mt-1 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700">
+              <span className="bg-purple-500" style={{ width: `${headsShare}%` }} />
+              <span className="bg-blue-500 flex-1" />
+            </span>
+          }
+        />
+      </div>
+
+      <div className="p-6 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl">
+        <PnlChart points={profile.pnl} />
+      </div>
+
+      {unresolved.length > 0 && <PlayerGames title="Pending & cancelled" games={unresolved} />}
+
+      <PlayerGames title="All games" games={newestFirst} />
+    </div>
+  );
+}
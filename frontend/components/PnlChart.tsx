@@ -0,0 +1,67 @@
+'use client';
+
+import { formatEther } from 'viem';
+import { formatSignedMon } from '../lib/format';
+import type { PnlPoint } from '../lib/player';
+
+interface PnlChartProps {
+  points: PnlPoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+// Cumulative profit after each revealed game, drawn as a plain SVG line
+export function PnlChart({ points }: PnlChartProps) {
+  if (points.length === 0) {
+    return <p className="text-center text-sm text-gray-500 dark:text-white/50 py-12">No revealed games yet</p>;
+  }
+
+  // Start from zero so the first game shows as a step up or down
+  const values = [0, ...points.map((point) => Number(formatEther(point.profit)))];
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+
+  const x = (index: number) => PADDING + (index / (values.length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => PADDING + ((max - value) / range) * (HEIGHT - 2 * PADDING);
+
+  const line = values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  const final = points[points.length - 1].profit;
+  const positive = final >= BigInt(0);
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-2">
+        <span className="text-sm text-gray-500 dark:text-white/50">Cumulative P&amp;L</span>
+        <span className={`text-lg font-semibold ${positive ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {formatSignedMon(final, 3)}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48" preserveAspectRatio="none" role="img" aria-label="Cumulative profit and loss">
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-gray-300 dark:stroke-gray-600"
+          strokeDasharray="4 4"
+          strokeWidth={1}
+        />
+        <polyline
+          points={line}
+          fill="none"
+          className={positive ? 'stroke-green-500' : 'stroke-red-500'}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-white/40 mt-1">
+        <span>Game #{points[0].gameId.toString()}</span>
+        <span>Game #{points[points.length - 1].gameId.toString()}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { formatEther, formatGwei } from 'viem';
+import type { PreflightResult } from '../lib/preflight';
+
+interface PreflightSummaryProps {
+  result: PreflightResult | undefined;
+  isLoading: boolean;
+}
+
+// Outcome of the simulated transaction: why it would revert, or its gas and total cost
+export function PreflightSummary({ result, isLoading }: PreflightSummaryProps) {
+  if (isLoading && !result) {
+    return <p className="text-xs text-gray-500 dark:text-white/50">Simulating transaction...</p>;
+  }
+  if (!result) return null;
+
+  if (!result.ok) {
+    return <p className="text-xs text-red-600 dark:text-red-400">Would revert: {result.message}</p>;
+  }
+
+  return (
+    <div className="text-xs text-gray-600 dark:text-white/60 space-y-0.5">
+      <div className="flex justify-between gap-3">
+        <span>Estimated gas</span>
+        <span className="font-mono">
+          {result.gas.toString()} × {formatGwei(result.gasPrice)} gwei
+        </span>
+      </div>
+      <div className="flex justify-between gap-3">
+        <span>Network fee</span>
+        <span className="font-mono">{formatEther(result.gasCost)} MON</span>
+      </div>
+      <div className="flex justify-between gap-3 font-semibold text-gray-900 dark:text-white">
+        <span>Total cost</span>
+        <span className="font-mono">{formatEther(result.total)} MON</span>
+      </div>
+    </div>
+  );
+}
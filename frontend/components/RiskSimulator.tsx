@@ -0,0 +1,301 @@
+'use client';
+
+import { useState } from 'react';
+import { useReadContracts } from 'wagmi';
+import { formatEther } from 'viem';
+import { COIN_FLIP_ADDRESS, COIN_FLIP_ABI } from '../config/contract';
+import { useHouseEdge } from '../hooks/useHouseEdge';
+import { formatMon, formatSignedMon, parseMonAmount } from '../lib/format';
+import { formatHouseEdge, MAX_HOUSE_EDGE_BPS, MIN_HOUSE_EDGE_BPS, parseHouseEdgePercent } from '../lib/houseEdge';
+import {
+  createRandom,
+  simulateRun,
+  summarizeRuns,
+  type BetSizeDistribution,
+  type RunResult,
+  type SimulationConfig,
+  type SimulationReport,
+} from '../lib/simulation';
+
+const contract = { address: COIN_FLIP_ADDRESS, abi: COIN_FLIP_ABI } as const;
+
+// Keeps a simulation to a few seconds in the browser
+const MAX_SIMULATED_GAMES = 5_000_000;
+// Runs between UI updates
+const CHUNK_SIZE = 25;
+
+const inputClass =
+  'w-full px-3 py-2 mt-1 bg-white/10 dark:bg-gray-700/50 backdrop-blur-xl border border-gray-300/50 dark:border-white/20 rounded-xl text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all';
+const cardClass =
+  'p-6 bg-white/5 dark:bg-gray-800/50 backdrop-blur-xl border border-white/10 dark:border-gray-700/50 rounded-3xl shadow-2xl';
+
+type DistributionKind = BetSizeDistribution['kind'];
+
+interface RiskForm {
+  bankroll: string;
+  minBet: string;
+  maxBet: string;
+  entropyFee: string;
+  // Percent, e.g. `5`
+  houseEdge: string;
+  distribution: DistributionKind;
+  fixedAmount: string;
+  rangeMin: string;
+  rangeMax: string;
+  // `amount:weight` pairs, comma separated
+  weighted: string;
+  gamesPerRun: string;
+  runs: string;
+  concurrency: string;
+  withdrawFees: boolean;
+  seed: string;
+}
+
+function parseDistribution(form: RiskForm): BetSizeDistribution | string {
+  switch (form.distribution) {
+    case 'fixed': {
+      const amount = parseMonAmount(form.fixedAmount);
+      return amount === null ? 'Enter a bet size' : { kind: 'fixed', amount };
+    }
+    case 'uniform':
+    case 'log-uniform': {
+      const min = parseMonAmount(form.rangeMin);
+      const max = parseMonAmount(form.rangeMax);
+      if (min === null || max === null || min > max) return 'Enter a bet size range';
+      return { kind: form.distribution, min, max };
+    }
+    case 'weighted': {
+      const choices = form.weighted.split(',').map((pair) => {
+        const [amount, weight] = pair.split(':');
+        return { amount: parseMonAmount(amount ?? ''), weight: Number(weight) };
+      });
+      if (choices.some((choice) => choice.amount === null || !(choice.weight > 0))) return 'Use amount:weight pairs, e.g. 0.01:9, 1:1';
+      return { kind: 'weighted', choices: choices.map((choice) => ({ amount: choice.amount as bigint, weight: choice.weight })) };
+    }
+  }
+}
+
+function parseForm(form: RiskForm): SimulationConfig | string {
+  const bankroll = parseMonAmount(form.bankroll);
+  const minBet = parseMonAmount(form.minBet);
+  const maxBet = parseMonAmount(form.maxBet);
+  const entropyFee = parseMonAmount(form.entropyFee);
+  if (bankroll === null || minBet === null || maxBet === null || entropyFee === null) return 'Enter valid MON amounts';
+  if (minBet > maxBet) return 'Min bet must not exceed max bet';
+
+  // Percent to basis points, within what setHouseEdge accepts
+  const houseEdgeBps = parseHouseEdgePercent(form.houseEdge);
+  if (houseEdgeBps === null || houseEdgeBps < MIN_HOUSE_EDGE_BPS || houseEdgeBps > MAX_HOUSE_EDGE_BPS) {
+    return `House edge must be between ${formatHouseEdge(MIN_HOUSE_EDGE_BPS)} and ${formatHouseEdge(MAX_HOUSE_EDGE_BPS)}`;
+  }
+
+  const distribution = parseDistribution(form);
+  if (typeof distribution === 'string') return distribution;
+
+  const gamesPerRun = Number(form.gamesPerRun);
+  const runs = Number(form.runs);
+  const concurrency = Number(form.concurrency);
+  const seed = Number(form.seed);
+  if (![gamesPerRun, runs, concurrency, seed].every(Number.isInteger) || gamesPerRun < 1 || runs < 1 || concurrency < 1) {
+    return 'Games, runs and concurrency must be positive whole numbers';
+  }
+  if (gamesPerRun * runs > MAX_SIMULATED_GAMES) return `At most ${MAX_SIMULATED_GAMES.toLocaleString()} games per simulation`;
+
+  return { bankroll, minBet, maxBet, entropyFee, houseEdgeBps, distribution, gamesPerRun, runs, concurrency, withdrawFees: form.withdrawFees, seed };
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(value > 0 && value < 0.01 ? 2 : 1)}%`;
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className={cardClass}>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">{label}</p>
+      <p className="text-2xl font-bold text-gray-900 dark:text-white">{value}</p>
+      {hint && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function Report({ report }: { report: SimulationReport }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <Stat label="Risk of Ruin" value={percent(report.ruinProbability)} hint="Runs where the house could no longer accept a min bet" />
+      <Stat label="Max Bet Blocked" value={percent(report.maxBetBlockedProbability)} hint="Runs where a max bet would have been rejected" />
+      <Stat label="Rejected Bets" value={percent(report.rejectionRate)} hint={`Failed payouts: ${percent(report.failedPayoutRate)} of placed bets`} />
+      <Stat label="Expected Fee Income" value={`${formatMon(report.expectedFeeIncome, 4)} MON`} hint={`Accrued to houseFees per run of ${report.gamesPerRun} games`} />
+      <Stat label="Expected House Profit" value={formatSignedMon(report.expectedHouseProfit, 4)} hint="Final balance plus withdrawn fees, per run" />
+      <Stat
+        label="Max Drawdown"
+        value={`${formatMon(report.maxDrawdown.mean, 3)} MON`}
+        hint={`Mean; p95 ${formatMon(report.maxDrawdown.p95, 3)}, worst ${formatMon(report.maxDrawdown.worst, 3)} MON`}
+      />
+      <div className={`${cardClass} md:col-span-3`}>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Final contract balance over {report.runs} runs</p>
+        <div className="grid grid-cols-3 text-center">
+          {(['p5', 'p50', 'p95'] as const).map((key) => (
+            <div key={key}>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{key === 'p50' ? 'Median' : key}</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatMon(report.finalBalance[key], 3)} MON</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SimulatorForm({ initial }: { initial: RiskForm }) {
+  const [form, setForm] = useState(initial);
+  const [report, setReport] = useState<SimulationReport | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const parsed = parseForm(form);
+  const running = progress !== null;
+
+  const run = async (config: SimulationConfig) => {
+    const random = createRandom(config.seed);
+    const results: RunResult[] = [];
+    setProgress(0);
+    for (let i = 0; i < config.runs; i++) {
+      results.push(simulateRun(config, random));
+      if ((i + 1) % CHUNK_SIZE === 0) {
+        setProgress((i + 1) / config.runs);
+        // Let the browser paint between chunks
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+    setReport(summarizeRuns(config, results));
+    setProgress(null);
+  };
+
+  const field = (key: Exclude<keyof RiskForm, 'distribution' | 'withdrawFees'>, label: string) => (
+    <label className="block text-sm text-gray-700 dark:text-white/70">
+      {label}
+      <input value={form[key]} onChange={(e) => setForm({ ...form, [key]: e.target.value })} disabled={running} className={inputClass} />
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className={`${cardClass} space-y-4`}>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {field('bankroll', 'Bankroll (MON)')}
+          {field('minBet', 'Min bet (MON)')}
+          {field('maxBet', 'Max bet (MON)')}
+          {field('entropyFee', 'Entropy fee (MON)')}
+          {field('houseEdge', 'House edge (%)')}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <label className="block text-sm text-gray-700 dark:text-white/70">
+            Bet sizes
+            <select
+              value={form.distribution}
+              onChange={(e) => setForm({ ...form, distribution: e.target.value as DistributionKind })}
+              disabled={running}
+              className={inputClass}
+            >
+              <option value="fixed">Fixed</option>
+              <option value="uniform">Uniform</option>
+              <option value="log-uniform">Log-uniform</option>
+              <option value="weighted">Weighted</option>
+            </select>
+          </label>
+          {form.distribution === 'fixed' && field('fixedAmount', 'Bet size (MON)')}
+          {(form.distribution === 'uniform' || form.distribution === 'log-uniform') && (
+            <>
+              {field('rangeMin', 'From (MON)')}
+              {field('rangeMax', 'To (MON)')}
+            </>
+          )}
+          {form.distribution === 'weighted' && (
+            <div className="col-span-1 md:col-span-3">{field('weighted', 'Sizes (MON:weight, ...)')}</div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          {field('gamesPerRun', 'Games per run')}
+          {field('runs', 'Runs')}
+          {field('concurrency', 'Concurrent bets')}
+          {field('seed', 'Seed')}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-white/70">
+          <input
+            type="checkbox"
+            checked={form.withdrawFees}
+            onChange={(e) => setForm({ ...form, withdrawFees: e.target.checked })}
+            disabled={running}
+          />
+          Owner withdraws house fees after every round of bets
+        </label>
+
+        {typeof parsed === 'string' && <p className="text-sm text-red-600 dark:text-red-400">{parsed}</p>}
+
+        <button
+          onClick={() => typeof parsed !== 'string' && run(parsed)}
+          disabled={running || typeof parsed === 'string'}
+          className="w-full py-3 bg-gradient-to-b from-blue-500 to-blue-600 text-white font-semibold rounded-2xl shadow-lg hover:shadow-xl active:scale-95 transform transition-all duration-200 ease-out disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+        >
+          {running ? `Simulating... ${Math.round((progress ?? 0) * 100)}%` : 'Run Simulation'}
+        </button>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The house edge of every bet accrues to house fees and is the house&apos;s whole expected edge: a bankroll whose
+          fees are withdrawn has no drift left, so its risk of ruin grows with the number of games.
+        </p>
+      </div>
+
+      {report && <Report report={report} />}
+    </div>
+  );
+}
+
+// Monte Carlo risk analysis, prefilled with the live contract settings
+export function RiskSimulator() {
+  const { houseEdgeBps } = useHouseEdge();
+  const { data, isLoading } = useReadContracts({
+    contracts: [
+      { ...contract, functionName: 'getContractBalance' },
+      { ...contract, functionName: 'minBet' },
+      { ...contract, functionName: 'maxBet' },
+      { ...contract, functionName: 'getEntropyFee' },
+    ],
+    allowFailure: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-white/20 border-t-white"></div>
+      </div>
+    );
+  }
+
+  // Falls back to editable defaults when the contract can't be read
+  const [balance, minBet, maxBet, entropyFee] = data ?? [BigInt(10e18), BigInt(1e16), BigInt(1e18), BigInt(0)];
+  // Prefilled again if the edge is read (or changed) after the form was shown
+  return (
+    <SimulatorForm
+      key={houseEdgeBps.toString()}
+      initial={{
+        bankroll: formatEther(balance),
+        minBet: formatEther(minBet),
+        maxBet: formatEther(maxBet),
+        entropyFee: formatEther(entropyFee),
+        houseEdge: String(Number(houseEdgeBps) / 100),
+        distribution: 'log-uniform',
+        fixedAmount: formatEther(minBet),
+        rangeMin: formatEther(minBet),
+        rangeMax: formatEther(maxBet),
+        weighted: `${formatEther(minBet)}:9, ${formatEther(maxBet)}:1`,
+        gamesPerRun: '1000',
+        runs: '500',
+        concurrency: '1',
+        withdrawFees: false,
+        seed: '1',
+      }}
+    />
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import Link from 'next/link';
+import { ConnectButton } from './ConnectButton';
+import { ThemeToggle } from './ThemeToggle';
+
+interface SiteHeaderProps {
+  subtitle: string;
+  // Extra header actions, rendered before the theme toggle
+  children?: ReactNode;
+}
+
+export const HEADER_BUTTON_CLASS =
+  'px-4 py-2 rounded-xl bg-white/10 dark:bg-gray-800/50 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50 hover:bg-white/20 dark:hover:bg-gray-700/50 transition-all duration-200 shadow-sm text-gray-700 dark:text-gray-300 font-medium text-sm';
+
+export function SiteHeader({ subtitle, children }: SiteHeaderProps) {
+  return (
+    <header className="sticky top-0 z-50 backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-b border-gray-200/50 dark:border-gray-700/50">
+      <div className="container mx-auto px-4 py-4">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-purple-600 to-blue-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <span className="text-2xl">🎲</span>
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Monad Coin Flip</h1>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{subtitle}</p>
+            </div>
+          </Link>
+          <div className="flex items-center gap-3">
+            {children}
+            <ThemeToggle />
+            <ConnectButton />
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -1,24 +1,59 @@
 'use client';
 
-import { useEffect } from 'react';
 import { useBalance } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
 import { formatEther } from 'viem';
 import { COIN_FLIP_ADDRESS } from '../config/contract';
+import { useLiveEvents } from '../hooks/useLiveEvents';
+import { useGlobalStats } from '../hooks/usePlayerGames';
+import { formatMon, formatSignedMon, shortenAddress } from '../lib/format';
+import type { IndexerSummary } from '../lib/indexer/types';
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)}m`;
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
 
 export function Statistics() {
-  // Get contract balance with auto-refresh every 10 seconds
+  // Every contract event moves the balance or the aggregates; poll only while the stream is down
+  const { connected } = useLiveEvents(() => {
+    refetch();
+    refetchSummary();
+    refetchGlobalStats();
+  });
+  const fallbackInterval = connected ? false : 10000;
+
   const { data: contractBalance, refetch } = useBalance({
     address: COIN_FLIP_ADDRESS,
+    query: { refetchInterval: fallbackInterval },
   });
 
-  // Auto-refresh statistics every 10 seconds
-  useEffect(() => {
-    const interval = setInterval(() => {
-      refetch();
-    }, 10000); // 10 seconds
+  // Aggregates from the server-side event indexer
+  const { data: summary, refetch: refetchSummary } = useQuery({
+    queryKey: ['stats'],
+    queryFn: async () => {
+      // Revalidates with the ETag, so unchanged stats come back as a bodiless 304
+      const response = await fetch('/api/stats', { cache: 'no-cache' });
+      if (!response.ok) throw new Error(`Stats request failed with status ${response.status}`);
+      const { summary } = (await response.json()) as { summary: IndexerSummary };
+      return summary;
+    },
+    refetchInterval: fallbackInterval,
+  });
 
-    return () => clearInterval(interval);
-  }, [refetch]);
+  // The contract's own totals, shown while the indexer can't be reached
+  const { data: globalStats, refetch: refetchGlobalStats } = useGlobalStats();
+  const totalWagered = summary?.totalWagered ?? globalStats?.totalWagered;
+  const totalGames = summary?.totalGames ?? globalStats?.gamesPlayed.toString() ?? 0;
+
+  const winRate = summary && summary.revealedGames > 0
+    ? `${((summary.playerWins / summary.revealedGames) * 100).toFixed(1)}%`
+    : '-';
+
+  const flips = summary ? summary.heads + summary.tails : 0;
+  const headsShare = summary && flips > 0 ? (summary.heads / flips) * 100 : 50;
+  const isFair = summary?.fairnessPValue == null || summary.fairnessPValue >= 0.05;
 
   return (
     <div className="container mx-auto px-4 py-12 max-w-6xl">
@@ -27,7 +62,7 @@ export function Statistics() {
         <p className="text-gray-600 dark:text-gray-300">Real-time stats from the Monad blockchain</p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-gradient-to-br from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-3xl p-8 border border-purple-200/50 dark:border-purple-700/50 shadow-sm">
           <div className="flex items-center justify-center mb-4">
             <div className="w-16 h-16 bg-gradient-to-br from-purple-500 to-blue-500 rounded-2xl flex items-center justify-center">
@@ -50,9 +85,28 @@ export function Statistics() {
             </div>
           </div>
           <div className="text-center">
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Win Rate</p>
-            <p className="text-3xl font-bold text-gray-900 dark:text-white">~50%</p>
-            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Provably Fair</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Player Win Rate</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-white">{winRate}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {summary ? `${summary.revealedGames} games revealed` : 'Provably Fair'}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-sky-50 to-indigo-50 dark:from-sky-900/20 dark:to-indigo-900/20 rounded-3xl p-8 border border-sky-200/50 dark:border-sky-700/50 shadow-sm">
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-16 h-16 bg-gradient-to-br from-sky-500 to-indigo-500 rounded-2xl flex items-center justify-center">
+              <span className="text-3xl">📊</span>
+            </div>
+          </div>
+          <div className="text-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Total Wagered</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-white">
+              {totalWagered !== undefined ? formatMon(totalWagered) : '0.00'}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              MON over {totalGames} games
+            </p>
           </div>
         </div>
 
@@ -63,10 +117,77 @@ export function Statistics() {
             </div>
           </div>
           <div className="text-center">
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Payout Rate</p>
-            <p className="text-3xl font-bold text-gray-900 dark:text-white">1.9x</p>
-            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">On Win</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Avg. Reveal Time</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-white">
+              {summary?.averageRevealSeconds != null ? formatDuration(summary.averageRevealSeconds) : '-'}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {summary ? `${summary.pendingGames} pending, ${summary.cancelledGames} refunded` : 'From bet to result'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+        {/* Observed coin sides against a fair coin */}
+        <div className="bg-white/60 dark:bg-gray-800/50 rounded-3xl p-6 border border-gray-200/50 dark:border-gray-700/50 shadow-sm">
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">Heads / Tails</p>
+          <div className="flex h-3 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700 mb-2">
+            <div className="bg-purple-500" style={{ width: `${headsShare}%` }} />
+            <div className="bg-blue-500 flex-1" />
+          </div>
+          <div className="flex justify-between text-sm text-gray-900 dark:text-white font-medium">
+            <span>{summary?.heads ?? 0} heads ({headsShare.toFixed(1)}%)</span>
+            <span>{summary?.tails ?? 0} tails</span>
           </div>
+          <p className={`text-xs mt-3 ${isFair ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {summary?.fairnessPValue == null
+              ? 'No revealed games yet'
+              : `χ² = ${summary.chiSquared.toFixed(2)}, p = ${summary.fairnessPValue.toFixed(3)} (${isFair ? 'consistent with a fair coin' : 'unusual skew'})`}
+          </p>
+        </div>
+
+        {/* House result split into fees and bankroll movement */}
+        <div className="bg-white/60 dark:bg-gray-800/50 rounded-3xl p-6 border border-gray-200/50 dark:border-gray-700/50 shadow-sm">
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">House P&amp;L</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+            {summary ? formatSignedMon(summary.housePnl) : '-'}
+          </p>
+          <div className="space-y-1 text-xs">
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Fees accrued</span>
+              <span className="text-gray-900 dark:text-white">{summary ? formatSignedMon(summary.houseFees) : '-'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Bankroll</span>
+              <span className="text-gray-900 dark:text-white">{summary ? formatSignedMon(summary.bankrollPnl) : '-'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Deposits / withdrawals</span>
+              <span className="text-gray-900 dark:text-white">
+                {summary ? `${formatMon(summary.houseDeposits)} / ${formatMon(summary.houseWithdrawals)}` : '-'}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Biggest payout so far */}
+        <div className="bg-white/60 dark:bg-gray-800/50 rounded-3xl p-6 border border-gray-200/50 dark:border-gray-700/50 shadow-sm">
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">Largest Win</p>
+          {summary?.largestWin ? (
+            <>
+              <p className="text-2xl font-bold text-green-600 dark:text-green-400 mb-2">
+                {formatMon(summary.largestWin.payout)} MON
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Game #{summary.largestWin.gameId} by{' '}
+                <span className="font-mono">{shortenAddress(summary.largestWin.player)}</span>
+                {' '}on a {formatMon(summary.largestWin.betAmount)} MON bet
+              </p>
+            </>
+          ) : (
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">-</p>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,688 @@
+// This file is generated by scripts/generate-contracts.mjs from the Foundry build output.
+// Do not edit it by hand: run `forge build` and `npm run codegen` instead.
+
+export const COIN_FLIP_V1_ABI = [
+  {
+    type: 'constructor',
+    inputs: [
+      {
+        name: '_entropyAddress',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: '_entropyProvider',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: '_minBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: '_maxBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'fallback',
+    stateMutability: 'payable',
+  },
+  {
+    type: 'receive',
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'HOUSE_FEE_PERCENT',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'cancelGame',
+    inputs: [
+      {
+        name: '_gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'depositHouseFunds',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'emergencyWithdraw',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'entropy',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'contract IEntropy',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'entropyProvider',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'gameIdCounter',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'games',
+    inputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: 'player',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: 'betAmount',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: 'playerChoice',
+        type: 'uint8',
+        internalType: 'uint8',
+      },
+      {
+        name: 'result',
+        type: 'uint8',
+        internalType: 'uint8',
+      },
+      {
+        name: 'won',
+        type: 'bool',
+        internalType: 'bool',
+      },
+      {
+        name: 'payout',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: 'timestamp',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: 'state',
+        type: 'uint8',
+        internalType: 'enum CoinFlip.GameState',
+      },
+      {
+        name: 'entropySequenceNumber',
+        type: 'uint64',
+        internalType: 'uint64',
+      },
+      {
+        name: 'userRandomness',
+        type: 'bytes32',
+        internalType: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getAvailableHouseBalance',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getContractBalance',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getEntropyFee',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint128',
+        internalType: 'uint128',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGame',
+    inputs: [
+      {
+        name: '_gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        internalType: 'struct CoinFlip.Game',
+        components: [
+          {
+            name: 'player',
+            type: 'address',
+            internalType: 'address',
+          },
+          {
+            name: 'betAmount',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'playerChoice',
+            type: 'uint8',
+            internalType: 'uint8',
+          },
+          {
+            name: 'result',
+            type: 'uint8',
+            internalType: 'uint8',
+          },
+          {
+            name: 'won',
+            type: 'bool',
+            internalType: 'bool',
+          },
+          {
+            name: 'payout',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'timestamp',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'state',
+            type: 'uint8',
+            internalType: 'enum CoinFlip.GameState',
+          },
+          {
+            name: 'entropySequenceNumber',
+            type: 'uint64',
+            internalType: 'uint64',
+          },
+          {
+            name: 'userRandomness',
+            type: 'bytes32',
+            internalType: 'bytes32',
+          },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGameIdBySequence',
+    inputs: [
+      {
+        name: '_sequenceNumber',
+        type: 'uint64',
+        internalType: 'uint64',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getPlayerGames',
+    inputs: [
+      {
+        name: '_player',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256[]',
+        internalType: 'uint256[]',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'houseFees',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'maxBet',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'minBet',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'owner',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'placeBet',
+    inputs: [
+      {
+        name: '_choice',
+        type: 'uint8',
+        internalType: 'uint8',
+      },
+      {
+        name: '_userRandomness',
+        type: 'bytes32',
+        internalType: 'bytes32',
+      },
+    ],
+    outputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'playerGames',
+    inputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'revealResult',
+    inputs: [
+      {
+        name: '_gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: '_providerRevelation',
+        type: 'bytes32',
+        internalType: 'bytes32',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'sequenceNumberToGameId',
+    inputs: [
+      {
+        name: '',
+        type: 'uint64',
+        internalType: 'uint64',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setMaxBet',
+    inputs: [
+      {
+        name: '_maxBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setMinBet',
+    inputs: [
+      {
+        name: '_minBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'transferOwnership',
+    inputs: [
+      {
+        name: '_newOwner',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'withdrawHouseFees',
+    inputs: [
+      {
+        name: '_amount',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'BetPlaced',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+      {
+        name: 'choice',
+        type: 'uint8',
+        indexed: false,
+        internalType: 'uint8',
+      },
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+      {
+        name: 'sequenceNumber',
+        type: 'uint64',
+        indexed: false,
+        internalType: 'uint64',
+      },
+      {
+        name: 'userCommitment',
+        type: 'bytes32',
+        indexed: false,
+        internalType: 'bytes32',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'GameResult',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256',
+      },
+      {
+        name: 'choice',
+        type: 'uint8',
+        indexed: false,
+        internalType: 'uint8',
+      },
+      {
+        name: 'result',
+        type: 'uint8',
+        indexed: false,
+        internalType: 'uint8',
+      },
+      {
+        name: 'won',
+        type: 'bool',
+        indexed: false,
+        internalType: 'bool',
+      },
+      {
+        name: 'payout',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'HouseFundsDeposited',
+    inputs: [
+      {
+        name: 'sender',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'HouseFundsWithdrawn',
+    inputs: [
+      {
+        name: 'owner',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'OwnershipTransferred',
+    inputs: [
+      {
+        name: 'previousOwner',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'newOwner',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+    ],
+    anonymous: false,
+  },
+] as const;
+
+export const CoinFlipV1GameState = {
+  Pending: 0,
+  Revealed: 1,
+  Cancelled: 2,
+} as const;
+export type CoinFlipV1GameState = (typeof CoinFlipV1GameState)[keyof typeof CoinFlipV1GameState];
+
+export interface CoinFlipV1Game {
+  player: `0x${string}`;
+  betAmount: bigint;
+  playerChoice: number;
+  result: number;
+  won: boolean;
+  payout: bigint;
+  timestamp: bigint;
+  state: number;
+  entropySequenceNumber: bigint;
+  userRandomness: `0x${string}`;
+}
+
+export const COIN_FLIP_V1_ERRORS = [] as const;
+export type CoinFlipV1ErrorName = (typeof COIN_FLIP_V1_ERRORS)[number];
+
+export const COIN_FLIP_V1_EVENTS = ['BetPlaced', 'GameResult', 'HouseFundsDeposited', 'HouseFundsWithdrawn', 'OwnershipTransferred'] as const;
+export type CoinFlipV1EventName = (typeof COIN_FLIP_V1_EVENTS)[number];
@@ -0,0 +1,1025 @@
+// This file is generated by scripts/generate-contracts.mjs from the Foundry build output.
+// Do not edit it by hand: run `forge build` and `npm run codegen` instead.
+
+export const COIN_FLIP_V2_ABI = [
+  {
+    type: 'constructor',
+    inputs: [
+      {
+        name: '_entropyAddress',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: '_entropyProvider',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: '_minBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: '_maxBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'fallback',
+    stateMutability: 'payable',
+  },
+  {
+    type: 'receive',
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'DEFAULT_HOUSE_EDGE_BPS',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'MAX_HOUSE_EDGE_BPS',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'MIN_HOUSE_EDGE_BPS',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: '_entropyCallback',
+    inputs: [
+      {
+        name: 'sequence',
+        type: 'uint64',
+        internalType: 'uint64',
+      },
+      {
+        name: 'provider',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: 'randomNumber',
+        type: 'bytes32',
+        internalType: 'bytes32',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'cancelGame',
+    inputs: [
+      {
+        name: '_gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'depositHouseFunds',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'emergencyWithdraw',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'gameIdCounter',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'games',
+    inputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: 'player',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: 'betAmount',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: 'playerChoice',
+        type: 'uint8',
+        internalType: 'uint8',
+      },
+      {
+        name: 'result',
+        type: 'uint8',
+        internalType: 'uint8',
+      },
+      {
+        name: 'won',
+        type: 'bool',
+        internalType: 'bool',
+      },
+      {
+        name: 'payout',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: 'timestamp',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: 'state',
+        type: 'uint8',
+        internalType: 'enum CoinFlipV2.GameState',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getAvailableHouseBalance',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getContractBalance',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getEntropyFee',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getEntropyProvider',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGame',
+    inputs: [
+      {
+        name: '_gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        internalType: 'struct CoinFlipV2.Game',
+        components: [
+          {
+            name: 'player',
+            type: 'address',
+            internalType: 'address',
+          },
+          {
+            name: 'betAmount',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'playerChoice',
+            type: 'uint8',
+            internalType: 'uint8',
+          },
+          {
+            name: 'result',
+            type: 'uint8',
+            internalType: 'uint8',
+          },
+          {
+            name: 'won',
+            type: 'bool',
+            internalType: 'bool',
+          },
+          {
+            name: 'payout',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'timestamp',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'state',
+            type: 'uint8',
+            internalType: 'enum CoinFlipV2.GameState',
+          },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGameHouseEdge',
+    inputs: [
+      {
+        name: '_gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGameIdBySequence',
+    inputs: [
+      {
+        name: '_sequenceNumber',
+        type: 'uint64',
+        internalType: 'uint64',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGamesBatch',
+    inputs: [
+      {
+        name: '_gameIds',
+        type: 'uint256[]',
+        internalType: 'uint256[]',
+      },
+    ],
+    outputs: [
+      {
+        name: 'batch',
+        type: 'tuple[]',
+        internalType: 'struct CoinFlipV2.Game[]',
+        components: [
+          {
+            name: 'player',
+            type: 'address',
+            internalType: 'address',
+          },
+          {
+            name: 'betAmount',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'playerChoice',
+            type: 'uint8',
+            internalType: 'uint8',
+          },
+          {
+            name: 'result',
+            type: 'uint8',
+            internalType: 'uint8',
+          },
+          {
+            name: 'won',
+            type: 'bool',
+            internalType: 'bool',
+          },
+          {
+            name: 'payout',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'timestamp',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'state',
+            type: 'uint8',
+            internalType: 'enum CoinFlipV2.GameState',
+          },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGlobalStats',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        internalType: 'struct CoinFlipV2.Stats',
+        components: [
+          {
+            name: 'gamesPlayed',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'gamesWon',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'totalWagered',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'totalPaidOut',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getPayoutMultiplierBps',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getPlayerGameCount',
+    inputs: [
+      {
+        name: '_player',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getPlayerGames',
+    inputs: [
+      {
+        name: '_player',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256[]',
+        internalType: 'uint256[]',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getPlayerGamesPaginated',
+    inputs: [
+      {
+        name: '_player',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: '_offset',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+      {
+        name: '_limit',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: 'gameIds',
+        type: 'uint256[]',
+        internalType: 'uint256[]',
+      },
+      {
+        name: 'total',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getPlayerStats',
+    inputs: [
+      {
+        name: '_player',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        internalType: 'struct CoinFlipV2.Stats',
+        components: [
+          {
+            name: 'gamesPlayed',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'gamesWon',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'totalWagered',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'totalPaidOut',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'houseEdgeBps',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'houseFees',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'maxBet',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'minBet',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'owner',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'placeBet',
+    inputs: [
+      {
+        name: '_choice',
+        type: 'uint8',
+        internalType: 'uint8',
+      },
+    ],
+    outputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'playerGames',
+    inputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address',
+      },
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'sequenceToGameId',
+    inputs: [
+      {
+        name: '',
+        type: 'uint64',
+        internalType: 'uint64',
+      },
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setEntropyProvider',
+    inputs: [
+      {
+        name: '_provider',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setHouseEdge',
+    inputs: [
+      {
+        name: '_houseEdgeBps',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setMaxBet',
+    inputs: [
+      {
+        name: '_maxBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setMinBet',
+    inputs: [
+      {
+        name: '_minBet',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'transferOwnership',
+    inputs: [
+      {
+        name: '_newOwner',
+        type: 'address',
+        internalType: 'address',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'withdrawHouseFees',
+    inputs: [
+      {
+        name: '_amount',
+        type: 'uint256',
+        internalType: 'uint256',
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'BetPlaced',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256',
+      },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+      {
+        name: 'choice',
+        type: 'uint8',
+        indexed: false,
+        internalType: 'uint8',
+      },
+      {
+        name: 'sequenceNumber',
+        type: 'uint64',
+        indexed: false,
+        internalType: 'uint64',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'GameResult',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256',
+      },
+      {
+        name: 'choice',
+        type: 'uint8',
+        indexed: false,
+        internalType: 'uint8',
+      },
+      {
+        name: 'result',
+        type: 'uint8',
+        indexed: false,
+        internalType: 'uint8',
+      },
+      {
+        name: 'won',
+        type: 'bool',
+        indexed: false,
+        internalType: 'bool',
+      },
+      {
+        name: 'payout',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'HouseEdgeUpdated',
+    inputs: [
+      {
+        name: 'previousEdgeBps',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+      {
+        name: 'newEdgeBps',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'HouseFundsDeposited',
+    inputs: [
+      {
+        name: 'sender',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'HouseFundsWithdrawn',
+    inputs: [
+      {
+        name: 'owner',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'OwnershipTransferred',
+    inputs: [
+      {
+        name: 'previousOwner',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+      {
+        name: 'newOwner',
+        type: 'address',
+        indexed: true,
+        internalType: 'address',
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'error',
+    name: 'BetTooHigh',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'BetTooLow',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'BetTooLowForEntropyFee',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'CannotCancelYet',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'GameNotPending',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'InsufficientFee',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'InsufficientHouseBalance',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'InvalidChoice',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'NotPlayer',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'OnlyOwner',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'PayoutFailed',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'RefundFailed',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'WithdrawalFailed',
+    inputs: [],
+  },
+] as const;
+
+export const CoinFlipV2GameState = {
+  Pending: 0,
+  Revealed: 1,
+  Cancelled: 2,
+} as const;
+export type CoinFlipV2GameState = (typeof CoinFlipV2GameState)[keyof typeof CoinFlipV2GameState];
+
+export interface CoinFlipV2Game {
+  player: `0x${string}`;
+  betAmount: bigint;
+  playerChoice: number;
+  result: number;
+  won: boolean;
+  payout: bigint;
+  timestamp: bigint;
+  state: number;
+}
+
+export interface CoinFlipV2Stats {
+  gamesPlayed: bigint;
+  gamesWon: bigint;
+  totalWagered: bigint;
+  totalPaidOut: bigint;
+}
+
+export const COIN_FLIP_V2_ERRORS = ['BetTooHigh', 'BetTooLow', 'BetTooLowForEntropyFee', 'CannotCancelYet', 'GameNotPending', 'InsufficientFee', 'InsufficientHouseBalance', 'InvalidChoice', 'NotPlayer', 'OnlyOwner', 'PayoutFailed', 'RefundFailed', 'WithdrawalFailed'] as const;
+export type CoinFlipV2ErrorName = (typeof COIN_FLIP_V2_ERRORS)[number];
+
+export const COIN_FLIP_V2_EVENTS = ['BetPlaced', 'GameResult', 'HouseEdgeUpdated', 'HouseFundsDeposited', 'HouseFundsWithdrawn', 'OwnershipTransferred'] as const;
+export type CoinFlipV2EventName = (typeof COIN_FLIP_V2_EVENTS)[number];
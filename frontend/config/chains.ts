@@ -1,4 +1,4 @@
-import { defineChain } from 'viem'
+import { defineChain, type Chain } from 'viem'
 
 export const monadTestnet = defineChain({
   id: 10143,
@@ -10,11 +10,50 @@ export const monadTestnet = defineChain({
   },
   rpcUrls: {
     default: {
-      http: ['https://testnet-rpc.monad.xyz'],
+      http: [process.env.NEXT_PUBLIC_MONAD_RPC_URL || 'https://testnet-rpc.monad.xyz'],
     },
   },
   blockExplorers: {
     default: { name: 'MonadScan', url: 'https://testnet.monad.xyz' },
   },
+  contracts: {
+    multicall3: {
+      address: '0xcA11bde05977b3631167028862bE2a173976CA11',
+      blockCreated: 251449,
+    },
+  },
   testnet: true,
 })
+
+// Local node or fork started with `anvil`
+export const anvil = defineChain({
+  id: 31337,
+  name: 'Anvil',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Monad',
+    symbol: 'MON',
+  },
+  rpcUrls: {
+    default: {
+      http: [process.env.NEXT_PUBLIC_ANVIL_RPC_URL || 'http://127.0.0.1:8545'],
+    },
+  },
+  testnet: true,
+})
+
+export const SUPPORTED_CHAINS: readonly Chain[] = [monadTestnet, anvil]
+
+export function getChain(chainId: number): Chain | undefined {
+  return SUPPORTED_CHAINS.find((chain) => chain.id === chainId)
+}
+
+// The chain the app reads from and asks wallets to switch to
+export const ACTIVE_CHAIN: Chain = (() => {
+  const chainId = Number(process.env.NEXT_PUBLIC_CHAIN_ID || monadTestnet.id)
+  const chain = getChain(chainId)
+  if (!chain) {
+    throw new Error(`NEXT_PUBLIC_CHAIN_ID ${chainId} is not a supported chain`)
+  }
+  return chain
+})()
@@ -0,0 +1,8 @@
+import { createPublicClient, http } from 'viem';
+import { ACTIVE_CHAIN } from './chains';
+
+// Read-only client for code that runs outside of wagmi hooks
+export const publicClient = createPublicClient({
+  chain: ACTIVE_CHAIN,
+  transport: http(),
+});
@@ -1,104 +1,19 @@
-export const COIN_FLIP_ADDRESS = '0x54Af6f5dcCB7CE0654cA80Cb0B8d1348752beA57' as const;
+import { COIN_FLIP_V2_ABI } from './abi/CoinFlipV2';
+import { ACTIVE_CHAIN } from './chains';
+import { getDeployment, type ContractVersion } from './deployments';
 
-export const COIN_FLIP_ABI = [
-  {
-    inputs: [
-      { internalType: 'address', name: '_entropyAddress', type: 'address' },
-      { internalType: 'address', name: '_entropyProvider', type: 'address' },
-      { internalType: 'uint256', name: '_minBet', type: 'uint256' },
-      { internalType: 'uint256', name: '_maxBet', type: 'uint256' },
-    ],
-    stateMutability: 'nonpayable',
-    type: 'constructor',
-  },
-  {
-    inputs: [{ internalType: 'uint8', name: '_choice', type: 'uint8' }],
-    name: 'placeBet',
-    outputs: [{ internalType: 'uint256', name: 'gameId', type: 'uint256' }],
-    stateMutability: 'payable',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: '_gameId', type: 'uint256' }],
-    name: 'cancelGame',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'address', name: '_player', type: 'address' }],
-    name: 'getPlayerGames',
-    outputs: [{ internalType: 'uint256[]', name: '', type: 'uint256[]' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: '_gameId', type: 'uint256' }],
-    name: 'getGame',
-    outputs: [
-      {
-        components: [
-          { internalType: 'address', name: 'player', type: 'address' },
-          { internalType: 'uint256', name: 'betAmount', type: 'uint256' },
-          { internalType: 'uint8', name: 'playerChoice', type: 'uint8' },
-          { internalType: 'uint8', name: 'result', type: 'uint8' },
-          { internalType: 'bool', name: 'won', type: 'bool' },
-          { internalType: 'uint256', name: 'payout', type: 'uint256' },
-          { internalType: 'uint256', name: 'timestamp', type: 'uint256' },
-          { internalType: 'enum CoinFlipV2.GameState', name: 'state', type: 'uint8' },
-        ],
-        internalType: 'struct CoinFlipV2.Game',
-        name: '',
-        type: 'tuple',
-      },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'getEntropyFee',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'minBet',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'maxBet',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
-      { indexed: true, internalType: 'uint256', name: 'gameId', type: 'uint256' },
-      { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
-      { indexed: false, internalType: 'uint8', name: 'choice', type: 'uint8' },
-      { indexed: false, internalType: 'uint64', name: 'sequenceNumber', type: 'uint64' },
-    ],
-    name: 'BetPlaced',
-    type: 'event',
-  },
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'address', name: 'player', type: 'address' },
-      { indexed: true, internalType: 'uint256', name: 'gameId', type: 'uint256' },
-      { indexed: false, internalType: 'uint8', name: 'choice', type: 'uint8' },
-      { indexed: false, internalType: 'uint8', name: 'result', type: 'uint8' },
-      { indexed: false, internalType: 'bool', name: 'won', type: 'bool' },
-      { indexed: false, internalType: 'uint256', name: 'payout', type: 'uint256' },
-    ],
-    name: 'GameResult',
-    type: 'event',
-  },
-] as const;
+// `v2` unless NEXT_PUBLIC_COIN_FLIP_VERSION selects the commit-reveal `v1` contract
+export const COIN_FLIP_VERSION: ContractVersion = process.env.NEXT_PUBLIC_COIN_FLIP_VERSION === 'v1' ? 'v1' : 'v2';
+
+const deployment = getDeployment(ACTIVE_CHAIN.id, COIN_FLIP_VERSION);
+if (!deployment) {
+  throw new Error(`No CoinFlip ${COIN_FLIP_VERSION} deployment registered for chain ${ACTIVE_CHAIN.id}`);
+}
+
+export const COIN_FLIP_DEPLOYMENT = deployment;
+export const COIN_FLIP_ADDRESS = deployment.address;
+
+// Generated from the Foundry build output by `npm run codegen`. Reads, `cancelGame` and the owner
+// functions are the same in both versions, and V1's `getGame` returns V2's fields followed by its
+// own, so the V2 ABI serves either; `placeBet` and `revealResult` need `COIN_FLIP_V1_ABI` on V1.
+export const COIN_FLIP_ABI = COIN_FLIP_V2_ABI;
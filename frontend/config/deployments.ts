@@ -0,0 +1,60 @@
+import type { Address } from 'viem';
+import { anvil, monadTestnet } from './chains';
+
+/** `v1` is the commit-reveal `CoinFlip`, `v2` the Pyth Entropy callback `CoinFlipV2` */
+export type ContractVersion = 'v1' | 'v2';
+
+export interface CoinFlipDeployment {
+  chainId: number;
+  version: ContractVersion;
+  address: Address;
+  /** Block the contract was deployed in, where log scans start; unset when it isn't known */
+  startBlock?: number;
+}
+
+function deployment(
+  chainId: number,
+  version: ContractVersion,
+  address: string | undefined,
+  startBlock: string | undefined
+): CoinFlipDeployment[] {
+  return address ? [{ chainId, version, address: address as Address, startBlock: startBlock ? Number(startBlock) : undefined }] : [];
+}
+
+// NEXT_PUBLIC_* variables are inlined at build time, so each one is read by its full name
+const DEPLOYMENTS: CoinFlipDeployment[] = [
+  ...deployment(
+    monadTestnet.id,
+    'v2',
+    process.env.NEXT_PUBLIC_MONAD_COIN_FLIP_V2_ADDRESS || '0x54Af6f5dcCB7CE0654cA80Cb0B8d1348752beA57',
+    process.env.NEXT_PUBLIC_MONAD_COIN_FLIP_V2_START_BLOCK
+  ),
+  ...deployment(
+    monadTestnet.id,
+    'v1',
+    process.env.NEXT_PUBLIC_MONAD_COIN_FLIP_V1_ADDRESS || '0x7E917915Cefc7f98d6d3cA07f21c4B950803D1dD',
+    process.env.NEXT_PUBLIC_MONAD_COIN_FLIP_V1_START_BLOCK
+  ),
+  // Second contract deployed by script/DeployLocal.s.sol on a fresh anvil node (nonce 1, after
+  // the mock entropy). A local chain is short, so its log scans can start from genesis.
+  ...deployment(
+    anvil.id,
+    'v2',
+    process.env.NEXT_PUBLIC_ANVIL_COIN_FLIP_V2_ADDRESS || '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    process.env.NEXT_PUBLIC_ANVIL_COIN_FLIP_V2_START_BLOCK || '0'
+  ),
+  ...deployment(
+    anvil.id,
+    'v1',
+    process.env.NEXT_PUBLIC_ANVIL_COIN_FLIP_V1_ADDRESS,
+    process.env.NEXT_PUBLIC_ANVIL_COIN_FLIP_V1_START_BLOCK || '0'
+  ),
+];
+
+export function getDeployments(chainId: number): CoinFlipDeployment[] {
+  return DEPLOYMENTS.filter((deployment) => deployment.chainId === chainId);
+}
+
+export function getDeployment(chainId: number, version: ContractVersion): CoinFlipDeployment | undefined {
+  return DEPLOYMENTS.find((deployment) => deployment.chainId === chainId && deployment.version === version);
+}
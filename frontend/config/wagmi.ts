@@ -1,9 +1,12 @@
 import { http, createConfig } from 'wagmi'
 import { injected } from 'wagmi/connectors'
-import { monadTestnet } from './chains'
+import type { EIP1193Provider } from 'viem'
+import { ACTIVE_CHAIN } from './chains'
+
+type PhantomWindow = Window & { phantom?: { ethereum?: EIP1193Provider } }
 
 export const config = createConfig({
-  chains: [monadTestnet],
+  chains: [ACTIVE_CHAIN],
   connectors: [
     injected({
       target: 'metaMask',
@@ -13,12 +16,12 @@ export const config = createConfig({
         return {
           id: 'phantom',
           name: 'Phantom',
-          provider: typeof window !== 'undefined' ? (window as any)?.phantom?.ethereum : undefined,
+          provider: (window) => (window as PhantomWindow | undefined)?.phantom?.ethereum,
         }
       },
     }),
   ],
   transports: {
-    [monadTestnet.id]: http('https://testnet-rpc.monad.xyz'),
+    [ACTIVE_CHAIN.id]: http(),
   },
 })
@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { BetRequest, TrackedBet } from '../lib/betLifecycle';
+import {
+  nextDecision,
+  recordRound,
+  startSession,
+  type RoundResult,
+  type StopReason,
+  type StrategyConfig,
+  type StrategyLimits,
+  type StrategySession,
+} from '../lib/strategy';
+
+export interface AutoBetRound {
+  round: number;
+  bet: BetRequest;
+  result: RoundResult;
+  // Session profit after this round
+  profit: bigint;
+}
+
+interface AutoBetState {
+  status: 'idle' | 'running' | 'stopping';
+  config: StrategyConfig | null;
+  session: StrategySession | null;
+  // Tracked bet of the current round, once its transaction is sent
+  pendingId: string | null;
+  rounds: AutoBetRound[];
+  stopReason: StopReason | null;
+}
+
+const IDLE_AUTO_BET: AutoBetState = {
+  status: 'idle',
+  config: null,
+  session: null,
+  pendingId: null,
+  rounds: [],
+  stopReason: null,
+};
+
+interface UseAutoBetOptions {
+  // Bets and placeBet of the page's `useBetLifecycle`, whose watcher reports the results
+  bets: TrackedBet[];
+  placeBet: (bet: BetRequest, value: bigint) => Promise<string | null>;
+  limits: StrategyLimits | null;
+}
+
+/**
+ * Run a strategy from `lib/strategy.ts` against the contract: place a bet, wait for the
+ * lifecycle hook to settle it, fold the result into the session and decide the next round.
+ */
+export function useAutoBet({ bets, placeBet, limits }: UseAutoBetOptions) {
+  const [auto, setAuto] = useState<AutoBetState>(IDLE_AUTO_BET);
+
+  const placeNext = useCallback(
+    async (config: StrategyConfig, session: StrategySession) => {
+      if (!limits) return;
+      const decision = nextDecision(session, config, limits);
+      if (decision.action === 'stop') {
+        console.log('[AutoBet] Session stopped:', decision.reason);
+        setAuto((current) => ({ ...current, status: 'idle', stopReason: decision.reason }));
+        return;
+      }
+
+      const id = await placeBet(decision.bet, decision.bet.amount + limits.entropyFee);
+      setAuto((current) =>
+        id
+          ? { ...current, pendingId: id }
+          : { ...current, status: 'idle', stopReason: current.status === 'stopping' ? 'stopped' : 'failed' }
+      );
+    },
+    [limits, placeBet]
+  );
+
+  // Feed the settled bet of the current round into the next decision
+  useEffect(() => {
+    const { pendingId, config, session } = auto;
+    if (!pendingId || !config || !session || !limits) return;
+    const state = bets.find((bet) => bet.id === pendingId)?.state;
+    if (!state) return;
+
+    let result: RoundResult;
+    let payout = BigInt(0);
+    if (state.phase === 'revealed') {
+      result = state.won ? 'won' : 'lost';
+      payout = state.payout;
+    } else if (state.phase === 'cancelled') {
+      result = 'refunded';
+      payout = state.bet.amount;
+    } else if (state.phase === 'failed') {
+      setAuto({ ...auto, status: 'idle', pendingId: null, stopReason: 'failed' });
+      return;
+    } else {
+      return;
+    }
+
+    const nextSession = recordRound(session, config, limits, state.bet, result, payout);
+    const rounds = [...auto.rounds, { round: nextSession.rounds, bet: state.bet, result, profit: nextSession.profit }];
+    if (auto.status === 'stopping') {
+      setAuto({ ...auto, status: 'idle', session: nextSession, pendingId: null, rounds, stopReason: 'stopped' });
+      return;
+    }
+    setAuto({ ...auto, session: nextSession, pendingId: null, rounds });
+    placeNext(config, nextSession);
+  }, [auto, bets, limits, placeNext]);
+
+  const start = useCallback(
+    (config: StrategyConfig) => {
+      const session = startSession(config);
+      setAuto({ ...IDLE_AUTO_BET, status: 'running', config, session });
+      placeNext(config, session);
+    },
+    [placeNext]
+  );
+
+  // Lets the round in flight settle before stopping
+  const stop = useCallback(() => {
+    setAuto((current) => (current.status === 'running' ? { ...current, status: 'stopping' } : current));
+  }, []);
+
+  return { ...auto, start, stop };
+}
+
+export type AutoBet = ReturnType<typeof useAutoBet>;
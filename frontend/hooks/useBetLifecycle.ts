@@ -0,0 +1,375 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { useAccount, useWriteContract } from 'wagmi';
+import { isAddressEqual, type Hash, type Hex } from 'viem';
+import { COIN_FLIP_V1_ABI } from '../config/abi/CoinFlip';
+import { CoinFlipV2GameState } from '../config/abi/CoinFlipV2';
+import { ACTIVE_CHAIN } from '../config/chains';
+import { publicClient } from '../config/client';
+import { COIN_FLIP_ABI, COIN_FLIP_ADDRESS, COIN_FLIP_VERSION } from '../config/contract';
+import {
+  betBookReducer,
+  betStorageKey,
+  decodeBetPlaced,
+  decodeGameResult,
+  EMPTY_BET_BOOK,
+  parseStoredBets,
+  placeBetWrite,
+  serializeBets,
+  type BetRequest,
+  type TrackedBet,
+} from '../lib/betLifecycle';
+import {
+  addStoredSecret,
+  checkStoredSecret,
+  generateUserRandomness,
+  secretStorageKey,
+  waitForProviderRevelation,
+  type RevealState,
+  type StoredSecrets,
+} from '../lib/commitReveal';
+import { describeError } from '../lib/errors';
+import { preflightWrite } from '../lib/preflight';
+import { useLiveEvents } from './useLiveEvents';
+
+// Fallback for when the live event stream is down
+const GAME_POLL_INTERVAL = 2000;
+
+function loadBets(key: string): TrackedBet[] {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? parseStoredBets(stored) : [];
+  } catch (error) {
+    console.warn('[Bet] Ignoring unreadable stored bets:', error);
+    return [];
+  }
+}
+
+function loadSecrets(key: string): StoredSecrets {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('[Bet] Ignoring unreadable stored secrets:', error);
+    return {};
+  }
+}
+
+function storeUserRandomness(key: string, gameId: bigint, userRandomness: Hex) {
+  localStorage.setItem(key, JSON.stringify(addStoredSecret(loadSecrets(key), gameId, userRandomness)));
+}
+
+interface UseBetLifecycleOptions {
+  // Called once for every bet that is revealed or cancelled
+  onSettled?: () => void;
+}
+
+/**
+ * Drive the connected player's bets through `betReducer`. Bets that wait on the chain are
+ * kept in localStorage per chain and account, so a reload resumes them: each one is re-read
+ * with `getGame`, which also picks up results that arrived while the page was closed.
+ *
+ * On a V1 deployment each bet commits to a fresh secret, kept in localStorage by game id once the
+ * bet is confirmed, and an open game is settled by `reveal`, which checks the randomness the
+ * contract stored against that secret and sends `revealResult` with the provider's revelation.
+ */
+export function useBetLifecycle({ onSettled }: UseBetLifecycleOptions = {}) {
+  const { address } = useAccount();
+  const { writeContractAsync } = useWriteContract();
+  const [book, dispatch] = useReducer(betBookReducer, EMPTY_BET_BOOK);
+  // Bumped when the tab becomes visible, since background tabs throttle the polling
+  const [refreshCount, setRefreshCount] = useState(0);
+  // V1 reveals in progress or failed, by game id
+  const [reveals, setReveals] = useState<Record<string, RevealState>>({});
+  const nextIdRef = useRef(0);
+  // V1 secrets of sent bets, by tracked bet id, until the receipt gives their game id
+  const pendingSecretsRef = useRef(new Map<string, Hex>());
+  const settledRef = useRef(new Set<string>());
+  const onSettledRef = useRef(onSettled);
+
+  const storageKey = address ? betStorageKey(ACTIVE_CHAIN.id, address) : null;
+
+  useEffect(() => {
+    onSettledRef.current = onSettled;
+  }, [onSettled]);
+
+  // Load the stored bets whenever the account changes
+  useEffect(() => {
+    dispatch({ type: 'LOAD', storageKey, bets: storageKey ? loadBets(storageKey) : [] });
+  }, [storageKey]);
+
+  // Pick up bets placed from other tabs, and re-check everything when coming back to this one
+  useEffect(() => {
+    if (!storageKey) return;
+
+    const merge = () => dispatch({ type: 'MERGE', bets: loadBets(storageKey) });
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) merge();
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      merge();
+      setRefreshCount((count) => count + 1);
+    };
+
+    window.addEventListener('storage', onStorage);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [storageKey]);
+
+  // Persist against the key the book was loaded for, so switching accounts can't mix them up
+  useEffect(() => {
+    if (!book.storageKey) return;
+    const stored = serializeBets(book.bets);
+    if (stored.length > 0) localStorage.setItem(book.storageKey, JSON.stringify(stored));
+    else localStorage.removeItem(book.storageKey);
+  }, [book]);
+
+  useEffect(() => {
+    let settled = false;
+    for (const { id, state } of book.bets) {
+      if ((state.phase === 'revealed' || state.phase === 'cancelled') && !settledRef.current.has(id)) {
+        settledRef.current.add(id);
+        settled = true;
+      }
+    }
+    if (settled) onSettledRef.current?.();
+  }, [book.bets]);
+
+  const submitted = useMemo(
+    () => book.bets.flatMap(({ id, state }) => (state.phase === 'submitted' ? [{ id, txHash: state.txHash }] : [])),
+    [book.bets]
+  );
+  const openGames = useMemo(
+    () =>
+      book.bets.flatMap(({ state }) =>
+        state.phase === 'confirmed' || state.phase === 'awaiting-entropy' ? [state.gameId] : []
+      ),
+    [book.bets]
+  );
+
+  // submitted → confirmed: decode the game id from the receipt
+  useEffect(() => {
+    if (submitted.length === 0 || !address) return;
+    let stopped = false;
+
+    const waitForBet = async (id: string, txHash: Hash) => {
+      try {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+        if (stopped) return;
+        if (receipt.status !== 'success') {
+          dispatch({ type: 'UPDATE', id, event: { type: 'FAILED', error: 'Transaction reverted' } });
+          return;
+        }
+        const placed = decodeBetPlaced(receipt, COIN_FLIP_ADDRESS, address, COIN_FLIP_VERSION);
+        if (!placed) {
+          dispatch({ type: 'UPDATE', id, event: { type: 'FAILED', error: 'Transaction confirmed without a BetPlaced event' } });
+          return;
+        }
+        console.log('[Bet] Confirmed game', placed.gameId.toString());
+        const userRandomness = pendingSecretsRef.current.get(id);
+        if (userRandomness) {
+          storeUserRandomness(secretStorageKey(ACTIVE_CHAIN.id, address), placed.gameId, userRandomness);
+          pendingSecretsRef.current.delete(id);
+        }
+        dispatch({ type: 'UPDATE', id, event: { type: 'CONFIRMED', ...placed } });
+      } catch (error) {
+        console.error('[Bet] Error waiting for receipt:', error);
+        if (!stopped) {
+          dispatch({
+            type: 'UPDATE',
+            id,
+            event: { type: 'FAILED', error: 'Could not confirm the transaction. Check your game history.' },
+          });
+        }
+      }
+    };
+
+    for (const { id, txHash } of submitted) waitForBet(id, txHash);
+    return () => {
+      stopped = true;
+    };
+  }, [submitted, address]);
+
+  const { connected: isLive } = useLiveEvents((event) => {
+    if (event.type === 'reset') {
+      setRefreshCount((count) => count + 1);
+      return;
+    }
+    const { log } = event;
+    if (log.event !== 'GameResult' || !address || !isAddressEqual(log.player, address)) return;
+    dispatch({
+      type: 'BROADCAST',
+      event: { type: 'REVEALED', gameId: BigInt(log.gameId), result: log.result, won: log.won, payout: BigInt(log.payout) },
+    });
+  });
+
+  // confirmed / awaiting-entropy → revealed or cancelled: read the games until they settle
+  useEffect(() => {
+    if (openGames.length === 0) return;
+    let stopped = false;
+
+    const check = async (gameId: bigint) => {
+      try {
+        const game = await publicClient.readContract({
+          address: COIN_FLIP_ADDRESS,
+          abi: COIN_FLIP_ABI,
+          functionName: 'getGame',
+          args: [gameId],
+        });
+        if (stopped) return;
+
+        if (game.state === CoinFlipV2GameState.Revealed) {
+          dispatch({
+            type: 'BROADCAST',
+            event: { type: 'REVEALED', gameId, result: game.result, won: game.won, payout: game.payout },
+          });
+        } else if (game.state === CoinFlipV2GameState.Cancelled) {
+          dispatch({ type: 'BROADCAST', event: { type: 'CANCELLED', gameId } });
+        } else {
+          dispatch({ type: 'BROADCAST', event: { type: 'ENTROPY_PENDING', gameId } });
+        }
+      } catch (error) {
+        console.error(`[Bet] Error reading game ${gameId}:`, error);
+      }
+    };
+
+    // Checked once, then left to the event stream unless it is down
+    const checkAll = () => openGames.forEach(check);
+    checkAll();
+    const interval = isLive ? null : setInterval(checkAll, GAME_POLL_INTERVAL);
+    return () => {
+      stopped = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [openGames, refreshCount, isLive]);
+
+  // Resolves to the id of the tracked bet once the transaction is sent, or null if it wasn't
+  const placeBet = useCallback(
+    async (bet: BetRequest, value: bigint, batch?: string) => {
+      const id = `bet-${++nextIdRef.current}`;
+      dispatch({ type: 'TRACK', id, bet, batch });
+
+      try {
+        const userRandomness = COIN_FLIP_VERSION === 'v1' ? generateUserRandomness() : undefined;
+        const call = placeBetWrite(bet, value, userRandomness);
+
+        // Simulated first, so a bet the contract would reject never reaches the wallet
+        if (address) {
+          const preflight = await preflightWrite({ client: publicClient, account: address, call });
+          if (!preflight.ok) {
+            dispatch({ type: 'UPDATE', id, event: { type: 'FAILED', error: preflight.message } });
+            return null;
+          }
+        }
+
+        console.log('[Bet] Placing bet:', { choice: bet.choice, amount: bet.amount.toString(), value: value.toString() });
+        const hash = userRandomness
+          ? await writeContractAsync({
+              address: COIN_FLIP_ADDRESS,
+              abi: COIN_FLIP_V1_ABI,
+              functionName: 'placeBet',
+              args: [bet.choice, userRandomness],
+              value,
+            })
+          : await writeContractAsync({
+              address: COIN_FLIP_ADDRESS,
+              abi: COIN_FLIP_ABI,
+              functionName: 'placeBet',
+              args: [bet.choice],
+              value,
+            });
+        if (userRandomness) pendingSecretsRef.current.set(id, userRandomness);
+        dispatch({ type: 'UPDATE', id, event: { type: 'SUBMITTED', txHash: hash } });
+        return id;
+      } catch (error) {
+        console.error('[Bet] Error placing bet:', error);
+        dispatch({ type: 'UPDATE', id, event: { type: 'FAILED', error: describeError(error) } });
+        return null;
+      }
+    },
+    [address, writeContractAsync]
+  );
+
+  // V1: wait for the provider's revelation, then settle the game with `revealResult`
+  const reveal = useCallback(
+    async (gameId: bigint, sequenceNumber: bigint) => {
+      const key = gameId.toString();
+      const setReveal = (state: RevealState | null) =>
+        setReveals((current) => {
+          const next = { ...current };
+          if (state) next[key] = state;
+          else delete next[key];
+          return next;
+        });
+
+      setReveal({ phase: 'fetching' });
+      let revelation: Hex;
+      try {
+        if (address) {
+          const game = await publicClient.readContract({
+            address: COIN_FLIP_ADDRESS,
+            abi: COIN_FLIP_V1_ABI,
+            functionName: 'getGame',
+            args: [gameId],
+          });
+          const mismatch = checkStoredSecret(loadSecrets(secretStorageKey(ACTIVE_CHAIN.id, address))[key], game.userRandomness);
+          if (mismatch) {
+            setReveal({ phase: 'failed', error: mismatch });
+            return;
+          }
+        }
+        revelation = await waitForProviderRevelation(sequenceNumber);
+      } catch (error) {
+        console.error(`[Bet] Error fetching the revelation of game ${gameId}:`, error);
+        setReveal({ phase: 'failed', error: error instanceof Error ? error.message : 'Could not fetch the provider revelation' });
+        return;
+      }
+
+      try {
+        if (address) {
+          const preflight = await preflightWrite({
+            client: publicClient,
+            account: address,
+            call: { version: 'v1', functionName: 'revealResult', args: [gameId, revelation] },
+          });
+          if (!preflight.ok) {
+            setReveal({ phase: 'failed', error: preflight.message });
+            return;
+          }
+        }
+
+        setReveal({ phase: 'signing' });
+        const txHash = await writeContractAsync({
+          address: COIN_FLIP_ADDRESS,
+          abi: COIN_FLIP_V1_ABI,
+          functionName: 'revealResult',
+          args: [gameId, revelation],
+        });
+        setReveal({ phase: 'submitted', txHash });
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+        const revealed = receipt.status === 'success' ? decodeGameResult(receipt, COIN_FLIP_ADDRESS, gameId) : null;
+        if (!revealed) {
+          setReveal({ phase: 'failed', error: 'The reveal transaction reverted' });
+          return;
+        }
+        dispatch({ type: 'BROADCAST', event: revealed });
+        setReveal(null);
+      } catch (error) {
+        console.error(`[Bet] Error revealing game ${gameId}:`, error);
+        setReveal({ phase: 'failed', error: describeError(error) });
+      }
+    },
+    [address, writeContractAsync]
+  );
+
+  // Remove a settled or failed bet from the list
+  const dismiss = useCallback((id: string) => dispatch({ type: 'DISMISS', id }), []);
+
+  return { bets: book.bets, placeBet, dismiss, reveal, reveals };
+}
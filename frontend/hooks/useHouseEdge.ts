@@ -0,0 +1,35 @@
+'use client';
+
+import { useReadContract } from 'wagmi';
+import { COIN_FLIP_ABI, COIN_FLIP_ADDRESS, COIN_FLIP_VERSION } from '../config/contract';
+import { DEFAULT_HOUSE_EDGE_BPS } from '../lib/houseEdge';
+import { useLiveEvents } from './useLiveEvents';
+
+export interface HouseEdge {
+  // The default stands in on V1, on V2 deployments from before the setting, and until the read returns
+  houseEdgeBps: bigint;
+  // Whether `houseEdgeBps()` was read, i.e. the contract has the setting and `setHouseEdge`
+  isConfigurable: boolean;
+  isLoading: boolean;
+  // Why the read failed; a contract without the function falls through to its fallback and returns no data
+  error: Error | null;
+}
+
+/**
+ * The contract's current house edge in basis points, and whether the contract lets the owner
+ * change it
+ */
+export function useHouseEdge(): HouseEdge {
+  const { data, refetch, isLoading, error } = useReadContract({
+    address: COIN_FLIP_ADDRESS,
+    abi: COIN_FLIP_ABI,
+    functionName: 'houseEdgeBps',
+    query: { enabled: COIN_FLIP_VERSION === 'v2' },
+  });
+
+  useLiveEvents((event) => {
+    if (event.type === 'reset' || event.log.event === 'HouseEdgeUpdated') refetch();
+  });
+
+  return { houseEdgeBps: data ?? DEFAULT_HOUSE_EDGE_BPS, isConfigurable: data !== undefined, isLoading, error };
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { getStreamStatus, subscribeLiveEvents, subscribeStreamStatus, type LiveEvent } from '../lib/api/eventStream';
+
+/**
+ * Contract events pushed by the server as the indexer sees them. `connected` is false while the
+ * stream is down, so callers can fall back to polling until it is back.
+ */
+export function useLiveEvents(onEvent: (event: LiveEvent) => void) {
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => subscribeLiveEvents((event) => onEventRef.current(event)), []);
+
+  const status = useSyncExternalStore(subscribeStreamStatus, getStreamStatus, () => 'closed' as const);
+  return { connected: status === 'open' };
+}
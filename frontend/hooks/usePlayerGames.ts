@@ -0,0 +1,48 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useReadContract } from 'wagmi';
+import type { Address } from 'viem';
+import { COIN_FLIP_ABI, COIN_FLIP_ADDRESS, COIN_FLIP_VERSION } from '../config/contract';
+import { fetchRecentGameIds } from '../lib/player';
+
+// The running totals only exist on V2
+const HAS_STATS = COIN_FLIP_VERSION === 'v2';
+
+/**
+ * The ids of a player's `count` most recent games, newest first, and how many games they have
+ */
+export function usePlayerGameIds(player: Address | undefined, count: number) {
+  return useQuery({
+    queryKey: ['playerGameIds', COIN_FLIP_ADDRESS, player, count],
+    enabled: player !== undefined,
+    queryFn: () => fetchRecentGameIds(player!, count),
+    // Keep showing the loaded pages of the same player while the next one is read
+    placeholderData: (previous, previousQuery) => (previousQuery?.queryKey[2] === player ? previous : undefined),
+  });
+}
+
+/**
+ * A player's games, wins, wager and payouts as counted by the contract; no data on V1
+ */
+export function usePlayerStats(player: Address | undefined) {
+  return useReadContract({
+    address: COIN_FLIP_ADDRESS,
+    abi: COIN_FLIP_ABI,
+    functionName: 'getPlayerStats',
+    args: player ? [player] : undefined,
+    query: { enabled: HAS_STATS && player !== undefined },
+  });
+}
+
+/**
+ * The same totals across all players; no data on V1
+ */
+export function useGlobalStats() {
+  return useReadContract({
+    address: COIN_FLIP_ADDRESS,
+    abi: COIN_FLIP_ABI,
+    functionName: 'getGlobalStats',
+    query: { enabled: HAS_STATS },
+  });
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAccount } from 'wagmi';
+import { publicClient } from '../config/client';
+import { preflightKey, preflightWrite, type PreflightCall } from '../lib/preflight';
+
+// Re-simulated while shown, so a change of house balance or limits is picked up before signing
+const PREFLIGHT_INTERVAL = 10000;
+
+/**
+ * Simulates `call` from the connected account; pass null while there is nothing to send
+ */
+export function usePreflight(call: PreflightCall | null) {
+  const { address } = useAccount();
+
+  return useQuery({
+    queryKey: preflightKey(address, call),
+    enabled: address !== undefined && call !== null,
+    queryFn: () => preflightWrite({ client: publicClient, account: address!, call: call! }),
+    refetchInterval: PREFLIGHT_INTERVAL,
+    retry: false,
+  });
+}
@@ -0,0 +1,12 @@
+export async function register() {
+  // Tail the chain for the lifetime of a long-running server (`next start` / `next dev`)
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.INDEXER_DISABLED !== '1') {
+    const { getIndexer } = await import('./lib/indexer');
+    try {
+      getIndexer().start();
+    } catch (error) {
+      // The game itself reads the chain directly, so serve it without history and statistics
+      console.error('Indexer not started:', error);
+    }
+  }
+}
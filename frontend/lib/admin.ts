@@ -0,0 +1,204 @@
+import {
+  formatEther,
+  isAddress,
+  zeroAddress,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+} from 'viem';
+import type { COIN_FLIP_ABI } from '../config/contract';
+import { formatHouseEdge, formatMultiplier, MAX_HOUSE_EDGE_BPS, MIN_HOUSE_EDGE_BPS, winPayout } from './houseEdge';
+
+/**
+ * Owner operations on CoinFlipV2 and client-side checks that mirror the contract's `require`s,
+ * so an invalid call is caught before the wallet prompt.
+ */
+
+export type AdminAction =
+  | { type: 'depositHouseFunds'; amount: bigint }
+  | { type: 'withdrawHouseFees'; amount: bigint }
+  | { type: 'emergencyWithdraw' }
+  | { type: 'setMinBet'; value: bigint }
+  | { type: 'setMaxBet'; value: bigint }
+  | { type: 'setHouseEdge'; houseEdgeBps: bigint }
+  | { type: 'setEntropyProvider'; provider: Address }
+  | { type: 'transferOwnership'; newOwner: Address };
+
+type CoinFlipAbi = typeof COIN_FLIP_ABI;
+
+type AdminSetterName = Extract<
+  ContractFunctionName<CoinFlipAbi, 'nonpayable'>,
+  | 'withdrawHouseFees'
+  | 'emergencyWithdraw'
+  | 'setMinBet'
+  | 'setMaxBet'
+  | 'setHouseEdge'
+  | 'setEntropyProvider'
+  | 'transferOwnership'
+>;
+
+// One member per function so each call's arguments are checked against the ABI; only the deposit sends value
+export type AdminWrite =
+  | { functionName: 'depositHouseFunds'; value: bigint }
+  | { [name in AdminSetterName]: { functionName: name; args: ContractFunctionArgs<CoinFlipAbi, 'nonpayable', name> } }[AdminSetterName];
+
+export interface HouseState {
+  balance: bigint;
+  houseFees: bigint;
+  minBet: bigint;
+  maxBet: bigint;
+  houseEdgeBps: bigint;
+  entropyProvider: Address;
+  owner: Address;
+}
+
+export interface ActionPreview {
+  title: string;
+  // Moves funds out of the contract or hands over control
+  dangerous: boolean;
+  rows: [label: string, value: string][];
+}
+
+export function parseAdminAddress(input: string): Address | null {
+  const trimmed = input.trim();
+  return isAddress(trimmed) ? trimmed : null;
+}
+
+// The contract call that performs an action
+export function adminWrite(action: AdminAction): AdminWrite {
+  switch (action.type) {
+    case 'depositHouseFunds':
+      return { functionName: 'depositHouseFunds', value: action.amount };
+    case 'withdrawHouseFees':
+      return { functionName: 'withdrawHouseFees', args: [action.amount] };
+    case 'emergencyWithdraw':
+      return { functionName: 'emergencyWithdraw', args: [] };
+    case 'setMinBet':
+      return { functionName: 'setMinBet', args: [action.value] };
+    case 'setMaxBet':
+      return { functionName: 'setMaxBet', args: [action.value] };
+    case 'setHouseEdge':
+      return { functionName: 'setHouseEdge', args: [action.houseEdgeBps] };
+    case 'setEntropyProvider':
+      return { functionName: 'setEntropyProvider', args: [action.provider] };
+    case 'transferOwnership':
+      return { functionName: 'transferOwnership', args: [action.newOwner] };
+  }
+}
+
+// Returns the revert reason the contract would give, or null when the call should succeed
+export function validateAdminAction(action: AdminAction, house: HouseState): string | null {
+  switch (action.type) {
+    case 'depositHouseFunds':
+      if (action.amount <= BigInt(0)) return 'Must deposit some amount';
+      return null;
+    case 'withdrawHouseFees':
+      if (action.amount > house.houseFees) return 'Insufficient house fees';
+      if (action.amount > house.balance) return 'Insufficient contract balance';
+      return null;
+    case 'emergencyWithdraw':
+      if (house.balance <= BigInt(0)) return 'No balance to withdraw';
+      return null;
+    case 'setMinBet':
+      if (action.value <= BigInt(0)) return 'Minimum bet must be greater than 0';
+      if (action.value >= house.maxBet) return 'Minimum bet must be less than maximum bet';
+      return null;
+    case 'setMaxBet':
+      if (action.value <= house.minBet) return 'Maximum bet must be greater than minimum bet';
+      return null;
+    case 'setHouseEdge':
+      if (action.houseEdgeBps < MIN_HOUSE_EDGE_BPS || action.houseEdgeBps > MAX_HOUSE_EDGE_BPS) return 'House edge out of range';
+      return null;
+    case 'setEntropyProvider':
+      if (action.provider === zeroAddress) return 'Invalid provider address';
+      return null;
+    case 'transferOwnership':
+      if (action.newOwner === zeroAddress) return 'New owner cannot be zero address';
+      return null;
+  }
+}
+
+const mon = (value: bigint) => `${formatEther(value)} MON`;
+
+export function previewAdminAction(action: AdminAction, house: HouseState): ActionPreview {
+  switch (action.type) {
+    case 'depositHouseFunds':
+      return {
+        title: 'Deposit house funds',
+        dangerous: false,
+        rows: [
+          ['Amount', mon(action.amount)],
+          ['Contract balance after', mon(house.balance + action.amount)],
+        ],
+      };
+    case 'withdrawHouseFees':
+      return {
+        title: 'Withdraw house fees',
+        dangerous: true,
+        rows: [
+          ['Amount', mon(action.amount)],
+          ['Recipient', house.owner],
+          ['House fees after', mon(house.houseFees - action.amount)],
+          ['Contract balance after', mon(house.balance - action.amount)],
+        ],
+      };
+    case 'emergencyWithdraw':
+      return {
+        title: 'Emergency withdraw',
+        dangerous: true,
+        rows: [
+          ['Amount', `${mon(house.balance)} (entire balance)`],
+          ['Recipient', house.owner],
+          ['Contract balance after', mon(BigInt(0))],
+        ],
+      };
+    case 'setMinBet':
+      return {
+        title: 'Update minimum bet',
+        dangerous: false,
+        rows: [
+          ['Current', mon(house.minBet)],
+          ['New', mon(action.value)],
+        ],
+      };
+    case 'setMaxBet':
+      return {
+        title: 'Update maximum bet',
+        dangerous: false,
+        rows: [
+          ['Current', mon(house.maxBet)],
+          ['New', mon(action.value)],
+          ['Bankroll needed per max bet', mon(action.value + winPayout(action.value, house.houseEdgeBps))],
+        ],
+      };
+    case 'setHouseEdge':
+      return {
+        title: 'Update house edge',
+        dangerous: false,
+        rows: [
+          ['Current', `${formatHouseEdge(house.houseEdgeBps)} (wins pay ${formatMultiplier(house.houseEdgeBps)})`],
+          ['New', `${formatHouseEdge(action.houseEdgeBps)} (wins pay ${formatMultiplier(action.houseEdgeBps)})`],
+          ['Open bets', 'Settled at the edge they were placed with'],
+        ],
+      };
+    case 'setEntropyProvider':
+      return {
+        title: 'Change entropy provider',
+        dangerous: true,
+        rows: [
+          ['Current', house.entropyProvider],
+          ['New', action.provider],
+        ],
+      };
+    case 'transferOwnership':
+      return {
+        title: 'Transfer ownership',
+        dangerous: true,
+        rows: [
+          ['Current owner', house.owner],
+          ['New owner', action.newOwner],
+          ['Note', 'You will lose access to this console'],
+        ],
+      };
+  }
+}
@@ -0,0 +1,50 @@
+import type { Address } from 'viem';
+import type { IndexedGame } from '../indexer/types';
+import type { ExportFormat } from './export';
+import { MAX_PAGE_SIZE, type GamePage } from './games';
+
+/**
+ * Browser-side helpers for the /api/v1 routes.
+ */
+
+export async function fetchGamePage(path: string, params: Record<string, string | undefined> = {}): Promise<GamePage> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(key, value);
+  }
+
+  const response = await fetch(`${path}?${search}`);
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(error ?? `Request to ${path} failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+// Follow the cursor until every game of the player has been loaded, oldest first
+export async function fetchAllPlayerGames(player: Address): Promise<IndexedGame[]> {
+  const games: IndexedGame[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchGamePage(`/api/v1/players/${player}/games`, {
+      order: 'asc',
+      limit: String(MAX_PAGE_SIZE),
+      cursor,
+    });
+    games.push(...page.data);
+    cursor = page.pagination.nextCursor ?? undefined;
+  } while (cursor);
+
+  return games;
+}
+
+/**
+ * Download link for a player's game history; `from`/`to` are `YYYY-MM-DD` days in local time, inclusive
+ */
+export function playerExportUrl(player: Address, format: ExportFormat, range: { from?: string; to?: string } = {}): string {
+  const search = new URLSearchParams({ format });
+  if (range.from) search.set('from', String(Math.floor(new Date(`${range.from}T00:00:00`).getTime() / 1000)));
+  if (range.to) search.set('to', String(Math.floor(new Date(`${range.to}T23:59:59`).getTime() / 1000)));
+  return `/api/v1/players/${player}/export?${search}`;
+}
@@ -0,0 +1,102 @@
+import type { IndexedLog } from '../indexer/types';
+import { LIVE_EVENT_NAMES } from './events';
+
+/**
+ * Browser side of /api/v1/events: one EventSource per tab, shared by every subscriber and closed
+ * when the last one leaves. EventSource retries dropped connections itself and resumes with
+ * `Last-Event-ID`; when it gives up (the server answered with an error), the stream is reopened
+ * with backoff from the last event id that came through.
+ */
+
+export type LiveEvent = { type: 'log'; log: IndexedLog } | { type: 'reset' };
+
+export type StreamStatus = 'connecting' | 'open' | 'closed';
+
+const EVENTS_PATH = '/api/v1/events';
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+const listeners = new Set<(event: LiveEvent) => void>();
+const statusListeners = new Set<() => void>();
+let source: EventSource | null = null;
+let status: StreamStatus = 'closed';
+let lastEventId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = MIN_RETRY_DELAY;
+
+function setStatus(next: StreamStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener());
+}
+
+function emit(event: LiveEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+function connect() {
+  retryTimer = null;
+  const es = new EventSource(lastEventId ? `${EVENTS_PATH}?lastEventId=${encodeURIComponent(lastEventId)}` : EVENTS_PATH);
+  source = es;
+  setStatus('connecting');
+
+  const track = (event: MessageEvent) => {
+    if (event.lastEventId) lastEventId = event.lastEventId;
+  };
+
+  es.onopen = () => {
+    retryDelay = MIN_RETRY_DELAY;
+    setStatus('open');
+  };
+  es.onerror = () => {
+    if (es.readyState !== EventSource.CLOSED) {
+      setStatus('connecting');
+      return;
+    }
+    es.close();
+    source = null;
+    setStatus('closed');
+    retryTimer = setTimeout(connect, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+  };
+
+  for (const name of LIVE_EVENT_NAMES) {
+    es.addEventListener(name, (event) => {
+      track(event);
+      emit({ type: 'log', log: JSON.parse(event.data) as IndexedLog });
+    });
+  }
+  es.addEventListener('ready', track);
+  es.addEventListener('reset', (event) => {
+    track(event);
+    emit({ type: 'reset' });
+  });
+}
+
+function disconnect() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  source?.close();
+  source = null;
+  setStatus('closed');
+}
+
+export function subscribeLiveEvents(listener: (event: LiveEvent) => void): () => void {
+  listeners.add(listener);
+  if (!source && !retryTimer) connect();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) disconnect();
+  };
+}
+
+export function subscribeStreamStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function getStreamStatus(): StreamStatus {
+  return status;
+}
@@ -0,0 +1,56 @@
+import type { IndexedLog, IndexerState } from '../indexer/types';
+
+// Wire format of the /api/v1/events stream (server-sent events).
+// Every indexed log is sent as an event named after it (`BetPlaced`, `GameResult`,
+// `HouseFundsDeposited`, `HouseFundsWithdrawn`, `HouseEdgeUpdated`) with the log as JSON data and `<block>-<logIndex>`
+// as its id. A client that reconnects with that id (`Last-Event-ID` header or `lastEventId`
+// parameter) is sent the logs it missed. `reset` tells it the missed logs can't be replayed
+// (too many, or rolled back by a reorg) and it should reload its data instead.
+
+export type LiveEventName = IndexedLog['event'];
+
+export const LIVE_EVENT_NAMES: LiveEventName[] = [
+  'BetPlaced',
+  'GameResult',
+  'HouseFundsDeposited',
+  'HouseFundsWithdrawn',
+  'HouseEdgeUpdated',
+];
+
+// Missed logs sent on reconnect; beyond this the client is told to reload
+export const MAX_REPLAY = 500;
+
+export interface EventPosition {
+  blockNumber: number;
+  logIndex: number;
+}
+
+export function logEventId(log: EventPosition): string {
+  return `${log.blockNumber}-${log.logIndex}`;
+}
+
+export function parseEventId(raw: string | null | undefined): EventPosition | null {
+  const match = raw?.match(/^(\d+)-(\d+)$/);
+  return match ? { blockNumber: Number(match[1]), logIndex: Number(match[2]) } : null;
+}
+
+export function isAfter(log: EventPosition, position: EventPosition): boolean {
+  return log.blockNumber > position.blockNumber || (log.blockNumber === position.blockNumber && log.logIndex > position.logIndex);
+}
+
+/**
+ * Logs stored after `cursor`, or null when they can't be replayed and the client has to reset
+ */
+export function replayLogs(state: IndexerState, cursor: EventPosition): IndexedLog[] | null {
+  // The cursor points past the indexed head, so its block was rolled back
+  if (cursor.blockNumber > state.lastBlock) return null;
+  const missed = state.logs.filter((log) => isAfter(log, cursor));
+  return missed.length > MAX_REPLAY ? null : missed;
+}
+
+/**
+ * One server-sent event; `data` is serialized as a single JSON line
+ */
+export function formatEvent(event: string, data: unknown, id?: string): string {
+  return `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,122 @@
+import type { Address, Hash } from 'viem';
+import type { GameStateName, IndexedGame } from '../indexer/types';
+import { matchesQuery, parseGameQuery, type GameQuery, type ParseResult } from './games';
+
+// Game history export for bookkeeping: one row per game, oldest first, with every amount in wei
+// so the numbers reconcile exactly with the chain.
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportQuery {
+  format: ExportFormat;
+  // Filters shared with the game list routes; `from`/`to` bound the time the bet was placed
+  games: GameQuery;
+}
+
+export interface ExportRow {
+  gameId: string;
+  state: GameStateName;
+  side: 'Heads' | 'Tails';
+  result: 'Heads' | 'Tails' | null;
+  betAmount: string;
+  entropyFee: string | null;
+  payout: string;
+  // Payout (or refund) minus the bet and the entropy fee; null while pending or with an unknown fee
+  netPnl: string | null;
+  betTxHash: Hash;
+  betBlock: number;
+  // Block timestamps as ISO 8601 UTC
+  placedAt: string;
+  resultTxHash: Hash | null;
+  resultBlock: number | null;
+  revealedAt: string | null;
+}
+
+export interface ExportDocument {
+  player: Address;
+  chainId: number;
+  contract: Address;
+  from: string | null;
+  to: string | null;
+  games: ExportRow[];
+}
+
+const CSV_COLUMNS: [header: string, key: keyof ExportRow][] = [
+  ['game_id', 'gameId'],
+  ['state', 'state'],
+  ['side', 'side'],
+  ['result', 'result'],
+  ['bet_amount_wei', 'betAmount'],
+  ['entropy_fee_wei', 'entropyFee'],
+  ['payout_wei', 'payout'],
+  ['net_pnl_wei', 'netPnl'],
+  ['bet_tx_hash', 'betTxHash'],
+  ['bet_block', 'betBlock'],
+  ['placed_at', 'placedAt'],
+  ['result_tx_hash', 'resultTxHash'],
+  ['result_block', 'resultBlock'],
+  ['revealed_at', 'revealedAt'],
+];
+
+export function parseExportQuery(params: URLSearchParams): ParseResult<ExportQuery> {
+  const format = params.get('format') ?? 'csv';
+  if (format !== 'csv' && format !== 'json') return { error: 'format must be csv or json' };
+
+  const games = parseGameQuery(params);
+  if (games.error !== undefined) return games;
+  return { value: { format, games: { ...games.value, order: 'asc' } } };
+}
+
+const sideName = (side: number) => (side === 0 ? 'Heads' : 'Tails');
+const isoTime = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+function netPnl(game: IndexedGame): string | null {
+  if (game.state === 'Pending' || game.entropyFee === null) return null;
+  // A cancelled game refunds the bet, so only the fee is lost
+  const returned = game.state === 'Revealed' ? BigInt(game.payout) : BigInt(game.betAmount);
+  return (returned - BigInt(game.betAmount) - BigInt(game.entropyFee)).toString();
+}
+
+export function toExportRow(game: IndexedGame): ExportRow {
+  return {
+    gameId: game.gameId,
+    state: game.state,
+    side: sideName(game.choice),
+    result: game.result === null ? null : sideName(game.result),
+    betAmount: game.betAmount,
+    entropyFee: game.entropyFee,
+    payout: game.payout,
+    netPnl: netPnl(game),
+    betTxHash: game.betTxHash,
+    betBlock: game.placedBlock,
+    placedAt: isoTime(game.placedAt),
+    resultTxHash: game.resultTxHash,
+    resultBlock: game.revealedBlock,
+    revealedAt: game.revealedAt === null ? null : isoTime(game.revealedAt),
+  };
+}
+
+/**
+ * Every game matching the query, not just one page
+ */
+export function exportRows(games: IndexedGame[], query: GameQuery): ExportRow[] {
+  return games.filter((game) => matchesQuery(game, query)).map(toExportRow);
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const lines = [CSV_COLUMNS.map(([header]) => header).join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([, key]) => csvField(row[key])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function exportFileName(player: Address, chainId: number, format: ExportFormat): string {
+  return `coinflip-${chainId}-${player.toLowerCase()}.${format}`;
+}
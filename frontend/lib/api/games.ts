@@ -0,0 +1,190 @@
+import { isAddress, isAddressEqual, type Address } from 'viem';
+import type { CoinFlipV2Game } from '../../config/abi/CoinFlipV2';
+import type { GameStateName, IndexedGame } from '../indexer/types';
+
+// Shared parsing, filtering and pagination for the /api/v1 game routes.
+// Every uint256 in a response is a decimal string; inputs are validated before touching the indexer.
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const GAME_STATE_NAMES: GameStateName[] = ['Pending', 'Revealed', 'Cancelled'];
+const UINT_PATTERN = /^\d+$/;
+
+export type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+export interface GameQuery {
+  player?: Address;
+  states?: GameStateName[];
+  outcome?: 'won' | 'lost';
+  minBet?: bigint;
+  maxBet?: bigint;
+  // Unix seconds, compared with the time the bet was placed
+  from?: number;
+  to?: number;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: bigint;
+}
+
+export interface GamePage {
+  data: IndexedGame[];
+  pagination: {
+    limit: number;
+    order: 'asc' | 'desc';
+    nextCursor: string | null;
+  };
+}
+
+export function parseGameId(raw: string | null | undefined): ParseResult<bigint> {
+  if (!raw) return { error: 'Game ID is required' };
+  if (!UINT_PATTERN.test(raw)) return { error: 'Game ID must be a non-negative integer' };
+  return { value: BigInt(raw) };
+}
+
+export function parseAddress(raw: string | null | undefined, field = 'address'): ParseResult<Address> {
+  if (!raw || !isAddress(raw)) return { error: `${field} must be a valid address` };
+  return { value: raw };
+}
+
+function parseWei(raw: string, field: string): ParseResult<bigint> {
+  if (!UINT_PATTERN.test(raw)) return { error: `${field} must be an amount in wei` };
+  return { value: BigInt(raw) };
+}
+
+function parseTimestamp(raw: string, field: string): ParseResult<number> {
+  if (!UINT_PATTERN.test(raw)) return { error: `${field} must be a unix timestamp in seconds` };
+  return { value: Number(raw) };
+}
+
+export function parseGameQuery(params: URLSearchParams): ParseResult<GameQuery> {
+  const query: GameQuery = { order: 'desc', limit: DEFAULT_PAGE_SIZE };
+
+  const player = params.get('player');
+  if (player !== null) {
+    const parsed = parseAddress(player, 'player');
+    if (parsed.error !== undefined) return parsed;
+    query.player = parsed.value;
+  }
+
+  const state = params.get('state');
+  if (state !== null) {
+    const states: GameStateName[] = [];
+    for (const name of state.split(',')) {
+      const match = GAME_STATE_NAMES.find((candidate) => candidate.toLowerCase() === name.trim().toLowerCase());
+      if (!match) return { error: `state must be one of ${GAME_STATE_NAMES.join(', ')}` };
+      states.push(match);
+    }
+    query.states = states;
+  }
+
+  const outcome = params.get('outcome');
+  if (outcome !== null) {
+    if (outcome !== 'won' && outcome !== 'lost') return { error: 'outcome must be won or lost' };
+    query.outcome = outcome;
+  }
+
+  for (const field of ['minBet', 'maxBet'] as const) {
+    const raw = params.get(field);
+    if (raw === null) continue;
+    const parsed = parseWei(raw, field);
+    if (parsed.error !== undefined) return parsed;
+    query[field] = parsed.value;
+  }
+  if (query.minBet !== undefined && query.maxBet !== undefined && query.minBet > query.maxBet) {
+    return { error: 'minBet must not be greater than maxBet' };
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    const raw = params.get(field);
+    if (raw === null) continue;
+    const parsed = parseTimestamp(raw, field);
+    if (parsed.error !== undefined) return parsed;
+    query[field] = parsed.value;
+  }
+  if (query.from !== undefined && query.to !== undefined && query.from > query.to) {
+    return { error: 'from must not be after to' };
+  }
+
+  const order = params.get('order');
+  if (order !== null) {
+    if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' };
+    query.order = order;
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    if (!UINT_PATTERN.test(limit) || Number(limit) < 1 || Number(limit) > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    query.limit = Number(limit);
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor !== null) {
+    if (!UINT_PATTERN.test(cursor)) return { error: 'cursor is invalid' };
+    query.cursor = BigInt(cursor);
+  }
+
+  return { value: query };
+}
+
+export function matchesQuery(game: IndexedGame, query: GameQuery): boolean {
+  if (query.player && !isAddressEqual(game.player, query.player)) return false;
+  if (query.states && !query.states.includes(game.state)) return false;
+  if (query.outcome && (game.state !== 'Revealed' || game.won !== (query.outcome === 'won'))) return false;
+  if (query.minBet !== undefined && BigInt(game.betAmount) < query.minBet) return false;
+  if (query.maxBet !== undefined && BigInt(game.betAmount) > query.maxBet) return false;
+  if (query.from !== undefined && game.placedAt < query.from) return false;
+  if (query.to !== undefined && game.placedAt > query.to) return false;
+  return true;
+}
+
+/**
+ * Filter and page through games sorted by ascending game id.
+ * The cursor is the id of the last game on the previous page.
+ */
+export function paginateGames(games: IndexedGame[], query: GameQuery): GamePage {
+  const ordered = query.order === 'desc' ? [...games].reverse() : games;
+  const data: IndexedGame[] = [];
+  let hasMore = false;
+
+  for (const game of ordered) {
+    if (query.cursor !== undefined) {
+      const id = BigInt(game.gameId);
+      if (query.order === 'desc' ? id >= query.cursor : id <= query.cursor) continue;
+    }
+    if (!matchesQuery(game, query)) continue;
+    if (data.length === query.limit) {
+      hasMore = true;
+      break;
+    }
+    data.push(game);
+  }
+
+  return {
+    data,
+    pagination: {
+      limit: query.limit,
+      order: query.order,
+      nextCursor: hasMore ? data[data.length - 1].gameId : null,
+    },
+  };
+}
+
+/**
+ * JSON-safe form of the `getGame` struct, used by the legacy /api/getGame route.
+ */
+export function serializeContractGame(gameId: bigint, game: CoinFlipV2Game) {
+  return {
+    gameId: gameId.toString(),
+    player: game.player,
+    betAmount: game.betAmount.toString(),
+    playerChoice: game.playerChoice,
+    result: game.result,
+    won: game.won,
+    payout: game.payout.toString(),
+    timestamp: game.timestamp.toString(),
+    state: GAME_STATE_NAMES[game.state] ?? 'Unknown',
+  };
+}
@@ -0,0 +1,153 @@
+import type { Address } from 'viem';
+import type { IndexedGame } from '../indexer/types';
+import type { ParseResult } from './games';
+
+// Rankings for /api/v1/leaderboard, built from the indexed BetPlaced and GameResult logs.
+// Only revealed games count: pending bets have no outcome yet and cancelled ones were refunded.
+
+export const LEADERBOARD_WINDOWS = ['24h', '7d', 'all'] as const;
+export const LEADERBOARD_SORTS = ['profit', 'volume', 'games', 'streak'] as const;
+export const DEFAULT_LEADERBOARD_SIZE = 25;
+export const MAX_LEADERBOARD_SIZE = 100;
+
+export type LeaderboardWindow = (typeof LEADERBOARD_WINDOWS)[number];
+export type LeaderboardSort = (typeof LEADERBOARD_SORTS)[number];
+
+const WINDOW_SECONDS: Record<LeaderboardWindow, number | null> = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  all: null,
+};
+
+export interface LeaderboardQuery {
+  window: LeaderboardWindow;
+  sort: LeaderboardSort;
+  limit: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: Address;
+  games: number;
+  wins: number;
+  // Decimal strings in wei; profit is signed
+  wagered: string;
+  profit: string;
+  longestWinStreak: number;
+}
+
+export interface Leaderboard {
+  data: LeaderboardEntry[];
+  window: LeaderboardWindow;
+  sort: LeaderboardSort;
+  // Unix seconds; games placed before this are outside the window
+  since: number | null;
+}
+
+export function parseLeaderboardQuery(params: URLSearchParams): ParseResult<LeaderboardQuery> {
+  const query: LeaderboardQuery = { window: 'all', sort: 'profit', limit: DEFAULT_LEADERBOARD_SIZE };
+
+  const window = params.get('window');
+  if (window !== null) {
+    const match = LEADERBOARD_WINDOWS.find((candidate) => candidate === window);
+    if (!match) return { error: `window must be one of ${LEADERBOARD_WINDOWS.join(', ')}` };
+    query.window = match;
+  }
+
+  const sort = params.get('sort');
+  if (sort !== null) {
+    const match = LEADERBOARD_SORTS.find((candidate) => candidate === sort);
+    if (!match) return { error: `sort must be one of ${LEADERBOARD_SORTS.join(', ')}` };
+    query.sort = match;
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_LEADERBOARD_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_LEADERBOARD_SIZE}` };
+    }
+    query.limit = parsed;
+  }
+
+  return { value: query };
+}
+
+interface PlayerTotals {
+  player: Address;
+  games: number;
+  wins: number;
+  wagered: bigint;
+  profit: bigint;
+  currentStreak: number;
+  longestWinStreak: number;
+}
+
+function compareBigInt(a: bigint, b: bigint) {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+const SORT_COMPARATORS: Record<LeaderboardSort, (a: PlayerTotals, b: PlayerTotals) => number> = {
+  profit: (a, b) => compareBigInt(b.profit, a.profit),
+  volume: (a, b) => compareBigInt(b.wagered, a.wagered),
+  games: (a, b) => b.games - a.games,
+  streak: (a, b) => b.longestWinStreak - a.longestWinStreak,
+};
+
+/**
+ * Rank players over the games placed inside the window. `games` must be ordered by game id,
+ * as returned by the indexer, so win streaks follow the order the bets were placed in.
+ */
+export function buildLeaderboard(games: IndexedGame[], query: LeaderboardQuery, now: number): Leaderboard {
+  const windowSeconds = WINDOW_SECONDS[query.window];
+  const since = windowSeconds === null ? null : now - windowSeconds;
+  const totals = new Map<string, PlayerTotals>();
+
+  for (const game of games) {
+    if (game.state !== 'Revealed') continue;
+    if (since !== null && game.placedAt < since) continue;
+
+    const key = game.player.toLowerCase();
+    let entry = totals.get(key);
+    if (!entry) {
+      entry = { player: game.player, games: 0, wins: 0, wagered: BigInt(0), profit: BigInt(0), currentStreak: 0, longestWinStreak: 0 };
+      totals.set(key, entry);
+    }
+
+    const bet = BigInt(game.betAmount);
+    entry.games++;
+    entry.wagered += bet;
+    if (game.won) {
+      entry.wins++;
+      entry.profit += BigInt(game.payout) - bet;
+      entry.currentStreak++;
+      entry.longestWinStreak = Math.max(entry.longestWinStreak, entry.currentStreak);
+    } else {
+      entry.profit -= bet;
+      entry.currentStreak = 0;
+    }
+  }
+
+  // Ties fall back to volume, then address, so the order is stable between requests
+  const ranked = [...totals.values()].sort(
+    (a, b) =>
+      SORT_COMPARATORS[query.sort](a, b) ||
+      SORT_COMPARATORS.volume(a, b) ||
+      a.player.toLowerCase().localeCompare(b.player.toLowerCase())
+  );
+
+  return {
+    data: ranked.slice(0, query.limit).map((entry, index) => ({
+      rank: index + 1,
+      player: entry.player,
+      games: entry.games,
+      wins: entry.wins,
+      wagered: entry.wagered.toString(),
+      profit: entry.profit.toString(),
+      longestWinStreak: entry.longestWinStreak,
+    })),
+    window: query.window,
+    sort: query.sort,
+    since,
+  };
+}
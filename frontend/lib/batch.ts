@@ -0,0 +1,54 @@
+import type { BetRequest } from './betLifecycle';
+import { betPayout, betValue, checkBet, type BetIssue, type BetLimits } from './betValidation';
+
+export const MAX_BATCH_FLIPS = 10;
+
+export interface BatchFlipCheck {
+  flip: BetRequest;
+  // msg.value of the placeBet call
+  value: bigint;
+  payout: bigint;
+  issue: BetIssue | null;
+}
+
+export interface BatchCheck {
+  flips: BatchFlipCheck[];
+  totalBet: bigint;
+  totalFees: bigint;
+  totalValue: bigint;
+  // Paid out if every flip wins
+  maxPayout: bigint;
+  valid: boolean;
+}
+
+/**
+ * Check every flip of a batch the way `placeBet` will when the flips are sent one after the
+ * other. The house check sees the bets of the earlier flips in the contract balance (the
+ * entropy fee is forwarded), and assumes none of them is revealed in between.
+ */
+export function checkBatch(flips: BetRequest[], limits: BetLimits): BatchCheck {
+  let balance = limits.houseBalance;
+  let totalBet = BigInt(0);
+  let maxPayout = BigInt(0);
+
+  const checks = flips.map((flip): BatchFlipCheck => {
+    const value = betValue(flip.amount, limits.entropyFee);
+    const payout = betPayout(flip.amount, limits.houseEdgeBps);
+    const issue = checkBet(flip.amount, { ...limits, houseBalance: balance });
+
+    if (!issue) balance += flip.amount;
+    totalBet += flip.amount;
+    maxPayout += payout;
+    return { flip, value, payout, issue };
+  });
+
+  const totalFees = limits.entropyFee * BigInt(flips.length);
+  return {
+    flips: checks,
+    totalBet,
+    totalFees,
+    totalValue: totalBet + totalFees,
+    maxPayout,
+    valid: flips.length > 0 && checks.every((check) => check.issue === null),
+  };
+}
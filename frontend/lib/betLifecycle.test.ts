@@ -0,0 +1,200 @@
+import { encodeAbiParameters, encodeEventTopics, type Address, type Hash, type Hex, type TransactionReceipt } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { COIN_FLIP_V1_ABI } from '../config/abi/CoinFlip';
+import { COIN_FLIP_V2_ABI } from '../config/abi/CoinFlipV2';
+import {
+  betBookReducer,
+  betReducer,
+  decodeBetPlaced,
+  decodeGameResult,
+  EMPTY_BET_BOOK,
+  IDLE_BET,
+  parseStoredBets,
+  serializeBets,
+  type BetEvent,
+  type BetState,
+} from './betLifecycle';
+
+const CONTRACT: Address = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const OTHER_CONTRACT: Address = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const PLAYER: Address = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TX_HASH: Hash = `0x${'ab'.repeat(32)}`;
+const BET = { choice: 0, amount: BigInt(10) ** BigInt(17) } as const;
+
+const play = (events: BetEvent[], from: BetState = IDLE_BET) => events.reduce(betReducer, from);
+
+const toConfirmed: BetEvent[] = [
+  { type: 'SIGN', bet: BET },
+  { type: 'SUBMITTED', txHash: TX_HASH },
+  { type: 'CONFIRMED', gameId: BigInt(7), sequenceNumber: BigInt(42) },
+];
+
+function receipt(logs: { address: Address; topics: Hex[]; data: Hex }[]): TransactionReceipt {
+  return {
+    logs: logs.map((log, logIndex) => ({ ...log, logIndex, transactionHash: TX_HASH })),
+  } as unknown as TransactionReceipt;
+}
+
+function betPlacedV2(address: Address, gameId: bigint) {
+  return {
+    address,
+    topics: encodeEventTopics({ abi: COIN_FLIP_V2_ABI, eventName: 'BetPlaced', args: { player: PLAYER, gameId } }) as Hex[],
+    data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint8' }, { type: 'uint64' }], [BET.amount, BET.choice, BigInt(42)]),
+  };
+}
+
+describe('betReducer', () => {
+  it('walks a bet from signing to its result', () => {
+    const confirmed = play(toConfirmed);
+    expect(confirmed).toMatchObject({ phase: 'confirmed', gameId: BigInt(7), sequenceNumber: BigInt(42) });
+
+    const revealed = play(
+      [
+        { type: 'ENTROPY_PENDING', gameId: BigInt(7) },
+        { type: 'REVEALED', gameId: BigInt(7), result: 0, won: true, payout: BigInt(19) * BigInt(10) ** BigInt(16) },
+      ],
+      confirmed
+    );
+    expect(revealed).toEqual({
+      phase: 'revealed',
+      bet: BET,
+      txHash: TX_HASH,
+      gameId: BigInt(7),
+      result: 0,
+      won: true,
+      payout: BigInt(19) * BigInt(10) ** BigInt(16),
+    });
+  });
+
+  it('ignores events that do not apply to the current phase', () => {
+    const signing = play([{ type: 'SIGN', bet: BET }]);
+    expect(betReducer(signing, { type: 'CONFIRMED', gameId: BigInt(1), sequenceNumber: BigInt(1) })).toBe(signing);
+    expect(betReducer(signing, { type: 'SIGN', bet: { ...BET, choice: 1 } })).toBe(signing);
+    expect(betReducer(IDLE_BET, { type: 'FAILED', error: 'boom' })).toBe(IDLE_BET);
+  });
+
+  it('only applies results for its own game', () => {
+    const confirmed = play(toConfirmed);
+    expect(betReducer(confirmed, { type: 'REVEALED', gameId: BigInt(8), result: 1, won: false, payout: BigInt(0) })).toBe(confirmed);
+    expect(betReducer(confirmed, { type: 'CANCELLED', gameId: BigInt(8) })).toBe(confirmed);
+    expect(betReducer(confirmed, { type: 'CANCELLED', gameId: BigInt(7) })).toEqual({
+      phase: 'cancelled',
+      bet: BET,
+      txHash: TX_HASH,
+      gameId: BigInt(7),
+    });
+  });
+
+  it('keeps the first outcome when the receipt, watcher and polling all report it', () => {
+    const revealed = play([...toConfirmed, { type: 'REVEALED', gameId: BigInt(7), result: 1, won: false, payout: BigInt(0) }]);
+    expect(betReducer(revealed, { type: 'REVEALED', gameId: BigInt(7), result: 0, won: true, payout: BigInt(1) })).toBe(revealed);
+    expect(betReducer(revealed, { type: 'FAILED', error: 'late' })).toBe(revealed);
+  });
+
+  it('fails an in-flight bet and keeps what is known about it', () => {
+    expect(play([{ type: 'SIGN', bet: BET }, { type: 'FAILED', error: 'rejected' }])).toEqual({
+      phase: 'failed',
+      bet: BET,
+      error: 'rejected',
+      txHash: undefined,
+      gameId: undefined,
+    });
+    expect(play([...toConfirmed, { type: 'FAILED', error: 'timeout' }])).toMatchObject({
+      phase: 'failed',
+      txHash: TX_HASH,
+      gameId: BigInt(7),
+    });
+  });
+});
+
+describe('decodeBetPlaced', () => {
+  it('finds the V2 event emitted by the contract', () => {
+    const logs = receipt([betPlacedV2(OTHER_CONTRACT, BigInt(1)), betPlacedV2(CONTRACT, BigInt(7))]);
+    expect(decodeBetPlaced(logs, CONTRACT, PLAYER)).toEqual({ gameId: BigInt(7), sequenceNumber: BigInt(42) });
+  });
+
+  it('decodes the V1 event with the user commitment', () => {
+    const log = {
+      address: CONTRACT,
+      topics: encodeEventTopics({ abi: COIN_FLIP_V1_ABI, eventName: 'BetPlaced', args: { player: PLAYER } }) as Hex[],
+      data: encodeAbiParameters(
+        [{ type: 'uint256' }, { type: 'uint8' }, { type: 'uint256' }, { type: 'uint64' }, { type: 'bytes32' }],
+        [BET.amount, BET.choice, BigInt(3), BigInt(9), `0x${'11'.repeat(32)}`]
+      ),
+    };
+    expect(decodeBetPlaced(receipt([log]), CONTRACT, PLAYER, 'v1')).toEqual({ gameId: BigInt(3), sequenceNumber: BigInt(9) });
+    // The V1 event has a different signature, so the V2 ABI doesn't match it
+    expect(decodeBetPlaced(receipt([log]), CONTRACT, PLAYER)).toBeNull();
+  });
+
+  it('returns null when the receipt has no bet', () => {
+    expect(decodeBetPlaced(receipt([]), CONTRACT, PLAYER)).toBeNull();
+  });
+});
+
+describe('decodeGameResult', () => {
+  it('turns the GameResult of a reveal receipt into a REVEALED event', () => {
+    const log = {
+      address: CONTRACT,
+      topics: encodeEventTopics({ abi: COIN_FLIP_V2_ABI, eventName: 'GameResult', args: { player: PLAYER, gameId: BigInt(3) } }) as Hex[],
+      data: encodeAbiParameters(
+        [{ type: 'uint8' }, { type: 'uint8' }, { type: 'bool' }, { type: 'uint256' }],
+        [0, 0, true, BigInt(19) * BigInt(10) ** BigInt(16)]
+      ),
+    };
+    expect(decodeGameResult(receipt([log]), CONTRACT, BigInt(3))).toEqual({
+      type: 'REVEALED',
+      gameId: BigInt(3),
+      result: 0,
+      won: true,
+      payout: BigInt(19) * BigInt(10) ** BigInt(16),
+    });
+    expect(decodeGameResult(receipt([log]), CONTRACT, BigInt(4))).toBeNull();
+  });
+});
+
+describe('stored bets', () => {
+  it('resume from storage as confirmed so the game is read again', () => {
+    const confirmed = play([...toConfirmed, { type: 'ENTROPY_PENDING', gameId: BigInt(7) }]);
+    const book = betBookReducer(EMPTY_BET_BOOK, { type: 'LOAD', storageKey: 'key', bets: [{ id: 'a', state: confirmed, batch: 'b1' }] });
+
+    const [resumed] = parseStoredBets(JSON.stringify(serializeBets(book.bets)));
+    expect(resumed).toEqual({ id: TX_HASH, state: { ...confirmed, phase: 'confirmed' }, batch: 'b1' });
+  });
+
+  it('accept the single bet stored by older versions', () => {
+    const [resumed] = parseStoredBets(JSON.stringify({ choice: 1, amount: '5', txHash: TX_HASH }));
+    expect(resumed.state).toEqual({ phase: 'submitted', bet: { choice: 1, amount: BigInt(5) }, txHash: TX_HASH });
+  });
+
+  it('leave out bets that are signing or settled', () => {
+    const bets = [
+      { id: 'a', state: play([{ type: 'SIGN', bet: BET }]) },
+      { id: 'b', state: play([...toConfirmed, { type: 'CANCELLED', gameId: BigInt(7) }]) },
+    ];
+    expect(serializeBets(bets)).toEqual([]);
+  });
+});
+
+describe('betBookReducer', () => {
+  const tracked = betBookReducer(EMPTY_BET_BOOK, { type: 'TRACK', id: 'a', bet: BET });
+  const confirmed = toConfirmed
+    .slice(1)
+    .reduce((book, event) => betBookReducer(book, { type: 'UPDATE', id: 'a', event }), tracked);
+
+  it('routes broadcast results to the bet with that game id', () => {
+    const other = betBookReducer(confirmed, { type: 'TRACK', id: 'b', bet: BET });
+    const next = betBookReducer(other, { type: 'BROADCAST', event: { type: 'CANCELLED', gameId: BigInt(7) } });
+    expect(next.bets.map((bet) => bet.state.phase)).toEqual(['cancelled', 'signing']);
+  });
+
+  it('keeps its identity when nothing changed', () => {
+    expect(betBookReducer(confirmed, { type: 'BROADCAST', event: { type: 'CANCELLED', gameId: BigInt(8) } })).toBe(confirmed);
+    expect(betBookReducer(confirmed, { type: 'DISMISS', id: 'a' })).toBe(confirmed);
+  });
+
+  it('merges bets from another tab once', () => {
+    const stored = parseStoredBets(JSON.stringify(serializeBets(confirmed.bets)));
+    expect(betBookReducer(confirmed, { type: 'MERGE', bets: stored })).toBe(confirmed);
+  });
+});
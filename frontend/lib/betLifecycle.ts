@@ -0,0 +1,292 @@
+import { parseEventLogs, type Address, type Hash, type Hex, type TransactionReceipt } from 'viem';
+import { COIN_FLIP_V1_ABI } from '../config/abi/CoinFlip';
+import { COIN_FLIP_V2_ABI } from '../config/abi/CoinFlipV2';
+import type { ContractVersion } from '../config/deployments';
+import type { PreflightCall } from './preflight';
+
+// The life of a single bet, from signing the transaction to the entropy callback:
+//
+//   idle → signing → submitted → confirmed(gameId) → awaiting-entropy → revealed
+//                                                                     ↘ cancelled
+//   any in-flight phase → failed
+//
+// The reducer is pure and ignores events that don't apply to the current phase, so the
+// receipt, event watcher and polling fallback can all report the same outcome safely.
+//
+// On the commit-reveal V1 contract nothing calls back: `awaiting-entropy` lasts until the
+// player sends `revealResult`, whose receipt carries the same `GameResult` event.
+//
+// `placeBet` doesn't limit how many games a player has open, so the bets of an account are
+// kept in a `BetBook`, each one moving through `betReducer` on its own.
+
+export type CoinSide = 0 | 1; // 0 = Heads, 1 = Tails
+
+export interface BetRequest {
+  choice: CoinSide;
+  // Wei, excluding the entropy fee
+  amount: bigint;
+}
+
+export type BetState =
+  | { phase: 'idle' }
+  | { phase: 'signing'; bet: BetRequest }
+  | { phase: 'submitted'; bet: BetRequest; txHash: Hash }
+  | { phase: 'confirmed'; bet: BetRequest; txHash: Hash; gameId: bigint; sequenceNumber: bigint }
+  | { phase: 'awaiting-entropy'; bet: BetRequest; txHash: Hash; gameId: bigint; sequenceNumber: bigint }
+  | {
+      phase: 'revealed';
+      bet: BetRequest;
+      txHash: Hash;
+      gameId: bigint;
+      result: CoinSide;
+      won: boolean;
+      payout: bigint;
+    }
+  | { phase: 'cancelled'; bet: BetRequest; txHash: Hash; gameId: bigint }
+  | { phase: 'failed'; bet: BetRequest; error: string; txHash?: Hash; gameId?: bigint };
+
+export type BetPhase = BetState['phase'];
+
+export type BetEvent =
+  | { type: 'SIGN'; bet: BetRequest }
+  | { type: 'SUBMITTED'; txHash: Hash }
+  | { type: 'CONFIRMED'; gameId: bigint; sequenceNumber: bigint }
+  | { type: 'ENTROPY_PENDING'; gameId: bigint }
+  | { type: 'REVEALED'; gameId: bigint; result: number; won: boolean; payout: bigint }
+  | { type: 'CANCELLED'; gameId: bigint }
+  | { type: 'FAILED'; error: string };
+
+export const IDLE_BET: BetState = { phase: 'idle' };
+
+const IN_FLIGHT_PHASES: BetPhase[] = ['signing', 'submitted', 'confirmed', 'awaiting-entropy'];
+
+export function isBetInFlight(state: BetState): boolean {
+  return IN_FLIGHT_PHASES.includes(state.phase);
+}
+
+export function betReducer(state: BetState, event: BetEvent): BetState {
+  switch (event.type) {
+    case 'SIGN':
+      return isBetInFlight(state) ? state : { phase: 'signing', bet: event.bet };
+
+    case 'SUBMITTED':
+      return state.phase === 'signing' ? { phase: 'submitted', bet: state.bet, txHash: event.txHash } : state;
+
+    case 'CONFIRMED':
+      return state.phase === 'submitted'
+        ? { ...state, phase: 'confirmed', gameId: event.gameId, sequenceNumber: event.sequenceNumber }
+        : state;
+
+    case 'ENTROPY_PENDING':
+      return state.phase === 'confirmed' && state.gameId === event.gameId ? { ...state, phase: 'awaiting-entropy' } : state;
+
+    case 'REVEALED':
+      if ((state.phase !== 'confirmed' && state.phase !== 'awaiting-entropy') || state.gameId !== event.gameId) {
+        return state;
+      }
+      return {
+        phase: 'revealed',
+        bet: state.bet,
+        txHash: state.txHash,
+        gameId: state.gameId,
+        result: event.result === 0 ? 0 : 1,
+        won: event.won,
+        payout: event.payout,
+      };
+
+    case 'CANCELLED':
+      if ((state.phase !== 'confirmed' && state.phase !== 'awaiting-entropy') || state.gameId !== event.gameId) {
+        return state;
+      }
+      return { phase: 'cancelled', bet: state.bet, txHash: state.txHash, gameId: state.gameId };
+
+    case 'FAILED':
+      if (!isBetInFlight(state) || state.phase === 'idle') return state;
+      return {
+        phase: 'failed',
+        bet: state.bet,
+        error: event.error,
+        txHash: 'txHash' in state ? state.txHash : undefined,
+        gameId: 'gameId' in state ? state.gameId : undefined,
+      };
+  }
+}
+
+/**
+ * The `placeBet` call for a bet; a V1 bet also commits to the player's secret randomness
+ */
+export function placeBetWrite(bet: Pick<BetRequest, 'choice'>, value: bigint, userRandomness?: Hex): PreflightCall {
+  return userRandomness
+    ? { version: 'v1', functionName: 'placeBet', args: [bet.choice, userRandomness], value }
+    : { functionName: 'placeBet', args: [bet.choice], value };
+}
+
+const fromContract = (contract: Address) => (entry: { address: Address }) => entry.address.toLowerCase() === contract.toLowerCase();
+
+/**
+ * Find the `BetPlaced` event emitted by the contract for this player in a `placeBet` receipt.
+ * V1 emits it with a different signature, including the user commitment.
+ */
+export function decodeBetPlaced(receipt: TransactionReceipt, contract: Address, player: Address, version: ContractVersion = 'v2') {
+  const [log] =
+    version === 'v1'
+      ? parseEventLogs({ abi: COIN_FLIP_V1_ABI, logs: receipt.logs, eventName: 'BetPlaced', args: { player } }).filter(fromContract(contract))
+      : parseEventLogs({ abi: COIN_FLIP_V2_ABI, logs: receipt.logs, eventName: 'BetPlaced', args: { player } }).filter(fromContract(contract));
+
+  return log ? { gameId: log.args.gameId, sequenceNumber: log.args.sequenceNumber } : null;
+}
+
+/**
+ * The `REVEALED` event for the `GameResult` in a V1 `revealResult` receipt
+ */
+export function decodeGameResult(receipt: TransactionReceipt, contract: Address, gameId: bigint): BetEvent | null {
+  const [log] = parseEventLogs({ abi: COIN_FLIP_V2_ABI, logs: receipt.logs, eventName: 'GameResult', args: { gameId } }).filter(
+    fromContract(contract)
+  );
+
+  return log ? { type: 'REVEALED', gameId, result: log.args.result, won: log.args.won, payout: log.args.payout } : null;
+}
+
+export function betStorageKey(chainId: number, player: Address): string {
+  return `coinflip:bet:${chainId}:${player.toLowerCase()}`;
+}
+
+// Only bets that are waiting on the chain are stored; signing can't survive a reload
+export interface StoredBet {
+  choice: CoinSide;
+  amount: string;
+  txHash: Hash;
+  gameId?: string;
+  sequenceNumber?: string;
+  batch?: string;
+}
+
+export function toStoredBet(state: BetState): StoredBet | null {
+  switch (state.phase) {
+    case 'submitted':
+      return { choice: state.bet.choice, amount: state.bet.amount.toString(), txHash: state.txHash };
+    case 'confirmed':
+    case 'awaiting-entropy':
+      return {
+        choice: state.bet.choice,
+        amount: state.bet.amount.toString(),
+        txHash: state.txHash,
+        gameId: state.gameId.toString(),
+        sequenceNumber: state.sequenceNumber.toString(),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rebuild a stored bet. Bets with a known game id resume as `confirmed`, which re-reads the
+ * game from the contract, so a result delivered while the page was closed is picked up.
+ */
+export function fromStoredBet(stored: StoredBet): BetState {
+  const bet: BetRequest = { choice: stored.choice, amount: BigInt(stored.amount) };
+  if (stored.gameId === undefined || stored.sequenceNumber === undefined) {
+    return { phase: 'submitted', bet, txHash: stored.txHash };
+  }
+  return {
+    phase: 'confirmed',
+    bet,
+    txHash: stored.txHash,
+    gameId: BigInt(stored.gameId),
+    sequenceNumber: BigInt(stored.sequenceNumber),
+  };
+}
+
+export interface TrackedBet {
+  // Local id, stable for the lifetime of the bet; resumed bets use their tx hash
+  id: string;
+  state: BetState;
+  // Set for bets placed together in batch mode
+  batch?: string;
+}
+
+// The bets of one account, together with the storage key they were loaded from
+export interface BetBook {
+  storageKey: string | null;
+  bets: TrackedBet[];
+}
+
+export const EMPTY_BET_BOOK: BetBook = { storageKey: null, bets: [] };
+
+export type BetBookAction =
+  // Replace the book, e.g. when the account changes
+  | { type: 'LOAD'; storageKey: string | null; bets: TrackedBet[] }
+  // Add stored bets that aren't tracked yet, e.g. ones placed from another tab
+  | { type: 'MERGE'; bets: TrackedBet[] }
+  | { type: 'TRACK'; id: string; bet: BetRequest; batch?: string }
+  | { type: 'UPDATE'; id: string; event: BetEvent }
+  // Offer an event to every bet; game events only apply to the bet with that game id
+  | { type: 'BROADCAST'; event: BetEvent }
+  | { type: 'DISMISS'; id: string };
+
+function txHashOf(state: BetState): Hash | undefined {
+  return 'txHash' in state ? state.txHash : undefined;
+}
+
+// Keeps the book's identity when no bet changed, so duplicate reports don't re-render
+function updateBets(book: BetBook, update: (bet: TrackedBet) => BetState): BetBook {
+  let changed = false;
+  const bets = book.bets.map((bet) => {
+    const state = update(bet);
+    if (state === bet.state) return bet;
+    changed = true;
+    return { ...bet, state };
+  });
+  return changed ? { ...book, bets } : book;
+}
+
+export function betBookReducer(book: BetBook, action: BetBookAction): BetBook {
+  switch (action.type) {
+    case 'LOAD':
+      return { storageKey: action.storageKey, bets: action.bets };
+
+    case 'MERGE': {
+      const known = new Set(book.bets.map((bet) => txHashOf(bet.state)).filter(Boolean));
+      const added = action.bets.filter((bet) => !known.has(txHashOf(bet.state)));
+      return added.length > 0 ? { ...book, bets: [...book.bets, ...added] } : book;
+    }
+
+    case 'TRACK':
+      return {
+        ...book,
+        bets: [...book.bets, { id: action.id, state: betReducer(IDLE_BET, { type: 'SIGN', bet: action.bet }), batch: action.batch }],
+      };
+
+    case 'UPDATE':
+      return updateBets(book, (bet) => (bet.id === action.id ? betReducer(bet.state, action.event) : bet.state));
+
+    case 'BROADCAST':
+      return updateBets(book, (bet) => betReducer(bet.state, action.event));
+
+    case 'DISMISS': {
+      const bets = book.bets.filter((bet) => bet.id !== action.id || isBetInFlight(bet.state));
+      return bets.length === book.bets.length ? book : { ...book, bets };
+    }
+  }
+}
+
+export function serializeBets(bets: TrackedBet[]): StoredBet[] {
+  return bets.flatMap((bet) => {
+    const stored = toStoredBet(bet.state);
+    if (!stored) return [];
+    return [bet.batch ? { ...stored, batch: bet.batch } : stored];
+  });
+}
+
+/**
+ * Parse the stored bets of an account. A single object is accepted as well, which is how one
+ * pending bet used to be stored.
+ */
+export function parseStoredBets(json: string): TrackedBet[] {
+  const parsed = JSON.parse(json) as StoredBet | StoredBet[];
+  return (Array.isArray(parsed) ? parsed : [parsed]).map((stored) => ({
+    id: stored.txHash,
+    state: fromStoredBet(stored),
+    batch: stored.batch,
+  }));
+}
@@ -0,0 +1,108 @@
+import { parseEther } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { betPayout, betRange, checkBet, maxBetForHouseBalance, minBetForEntropyFee, type BetLimits } from './betValidation';
+
+const ONE = BigInt(1);
+const EDGES = [BigInt(100), BigInt(500), BigInt(1000)];
+
+const LIMITS: BetLimits = {
+  minBet: parseEther('0.01'),
+  maxBet: parseEther('1'),
+  entropyFee: parseEther('0.001'),
+  houseBalance: parseEther('100'),
+};
+
+// Limits where only the check under test can fail
+const open = (overrides: Partial<BetLimits>): BetLimits => ({
+  ...LIMITS,
+  minBet: ONE,
+  maxBet: parseEther('1000'),
+  ...overrides,
+});
+
+describe('checkBet', () => {
+  it('accepts bets at the exact bet limits', () => {
+    expect(checkBet(LIMITS.minBet, LIMITS)).toBeNull();
+    expect(checkBet(LIMITS.maxBet, LIMITS)).toBeNull();
+    expect(checkBet(LIMITS.minBet - ONE, LIMITS)).toBe('BetTooLow');
+    expect(checkBet(LIMITS.maxBet + ONE, LIMITS)).toBe('BetTooHigh');
+  });
+
+  it('applies the V1 limits to the value sent, fee included', () => {
+    const v1: BetLimits = { ...LIMITS, version: 'v1' };
+    expect(checkBet(LIMITS.minBet - LIMITS.entropyFee, v1)).toBeNull();
+    expect(checkBet(LIMITS.minBet - LIMITS.entropyFee - ONE, v1)).toBe('BetTooLow');
+    expect(checkBet(LIMITS.maxBet - LIMITS.entropyFee + ONE, v1)).toBe('BetTooHigh');
+    // V1 has no entropy fee check
+    expect(checkBet(ONE, { ...v1, minBet: ONE })).toBeNull();
+  });
+
+  it('counts the bet and the fee as already in the house balance', () => {
+    // A 1 MON win pays 1.9; with 1.1 sent along, a balance of 1.8 covers bet plus payout
+    const limits = { ...LIMITS, entropyFee: parseEther('0.1'), houseBalance: parseEther('1.8') };
+    expect(checkBet(parseEther('1'), limits)).toBeNull();
+    expect(checkBet(parseEther('1'), { ...limits, houseBalance: limits.houseBalance - ONE })).toBe('InsufficientHouseBalance');
+  });
+
+  it('reports the bet limits before the fee and balance checks', () => {
+    const limits = { ...LIMITS, houseBalance: BigInt(0), entropyFee: parseEther('1') };
+    expect(checkBet(LIMITS.minBet - ONE, limits)).toBe('BetTooLow');
+    expect(checkBet(LIMITS.minBet, limits)).toBe('BetTooLowForEntropyFee');
+  });
+});
+
+describe('minBetForEntropyFee', () => {
+  it('rounds up to the first bet whose winnings exceed the fee', () => {
+    // At 5% the winnings are 0.9x, rounded down: 1112 wins 1000, 1113 wins 1001
+    expect(minBetForEntropyFee(BigInt(1000))).toBe(BigInt(1113));
+    expect(checkBet(BigInt(1113), open({ entropyFee: BigInt(1000) }))).toBeNull();
+    expect(checkBet(BigInt(1112), open({ entropyFee: BigInt(1000) }))).toBe('BetTooLowForEntropyFee');
+  });
+
+  it('sits on the boundary of checkBet at every edge', () => {
+    for (const houseEdgeBps of EDGES) {
+      for (const entropyFee of [BigInt(7), LIMITS.entropyFee]) {
+        const limits = open({ entropyFee, houseEdgeBps });
+        const min = minBetForEntropyFee(entropyFee, houseEdgeBps);
+        expect(betPayout(min, houseEdgeBps) - min).toBeGreaterThan(entropyFee);
+        expect(checkBet(min, limits)).toBeNull();
+        expect(checkBet(min - ONE, limits)).toBe('BetTooLowForEntropyFee');
+      }
+    }
+  });
+
+  it('rises with the edge', () => {
+    const [low, mid, high] = EDGES.map((edge) => minBetForEntropyFee(LIMITS.entropyFee, edge));
+    expect(low < mid && mid < high).toBe(true);
+  });
+});
+
+describe('maxBetForHouseBalance', () => {
+  it('sits on the boundary of checkBet at every edge', () => {
+    for (const houseEdgeBps of EDGES) {
+      for (const houseBalance of [parseEther('1'), parseEther('3.3') + BigInt(7)]) {
+        const limits = open({ houseBalance, houseEdgeBps });
+        const max = maxBetForHouseBalance(houseBalance, limits.entropyFee, houseEdgeBps);
+        expect(betPayout(max, houseEdgeBps)).toBeLessThanOrEqual(houseBalance + limits.entropyFee);
+        expect(checkBet(max, limits)).toBeNull();
+        expect(checkBet(max + ONE, limits)).toBe('InsufficientHouseBalance');
+      }
+    }
+  });
+
+  it('covers exactly the balance plus the fee at 10%', () => {
+    // 1.8 pays out 3.24 at 1.8x
+    expect(maxBetForHouseBalance(parseEther('3.2'), parseEther('0.04'), BigInt(1000))).toBe(parseEther('1.8'));
+  });
+});
+
+describe('betRange', () => {
+  it('is bounded by the fee and the house balance, or empty when they cross', () => {
+    const limits = open({ houseBalance: parseEther('1') });
+    expect(betRange(limits)).toEqual({
+      min: minBetForEntropyFee(limits.entropyFee),
+      max: maxBetForHouseBalance(limits.houseBalance, limits.entropyFee),
+    });
+    expect(betRange(open({ houseBalance: BigInt(0), entropyFee: parseEther('1') }))).toBeNull();
+  });
+});
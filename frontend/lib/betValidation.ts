@@ -0,0 +1,145 @@
+import { formatEther } from 'viem';
+import type { CoinFlipV2ErrorName } from '../config/abi/CoinFlipV2';
+import type { ContractVersion } from '../config/deployments';
+import { BPS, DEFAULT_HOUSE_EDGE_BPS, payoutMultiplierBps, winPayout } from './houseEdge';
+
+/**
+ * Client-side copy of the checks `CoinFlipV2.placeBet` makes, in wei, so a bet that would revert
+ * is caught before the wallet prompt. The contract works on `betAmount = msg.value - fee` and the
+ * winning `payout = betAmount * 2 * (10000 - houseEdgeBps) / 10000`:
+ * - `BetTooLow` / `BetTooHigh`: `betAmount` outside `minBet..maxBet`
+ * - `BetTooLowForEntropyFee`: `payout - betAmount <= fee`
+ * - `InsufficientHouseBalance`: `address(this).balance < betAmount + payout`, where the balance
+ *   already includes `msg.value`
+ *
+ * V1 `CoinFlip.placeBet` makes the same house balance check but bounds `msg.value` rather than
+ * the bet by `minBet..maxBet`, only needs the bet to be positive, and reverts with `require`
+ * strings; its checks are reported under the same issue names.
+ */
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+export interface BetLimits {
+  minBet: bigint;
+  maxBet: bigint;
+  entropyFee: bigint;
+  // `getContractBalance()` before the bet
+  houseBalance: bigint;
+  // Whose rules apply, `v2` when omitted
+  version?: ContractVersion;
+  // `houseEdgeBps()`, the default 5% when omitted
+  houseEdgeBps?: bigint;
+}
+
+export type BetIssue = Extract<
+  CoinFlipV2ErrorName,
+  'BetTooLow' | 'BetTooHigh' | 'BetTooLowForEntropyFee' | 'InsufficientHouseBalance'
+>;
+
+/**
+ * msg.value of the `placeBet` call for a bet
+ */
+export function betValue(amount: bigint, entropyFee: bigint): bigint {
+  return amount + entropyFee;
+}
+
+/**
+ * Sent to the player by `entropyCallback` when the bet wins, stake included
+ */
+export function betPayout(amount: bigint, houseEdgeBps = DEFAULT_HOUSE_EDGE_BPS): bigint {
+  return winPayout(amount, houseEdgeBps);
+}
+
+/**
+ * Bets allowed by `minBet..maxBet`; V1 applies them to `msg.value`, so the fee comes off both ends
+ */
+export function betBounds(limits: BetLimits): { min: bigint; max: bigint } {
+  if (limits.version !== 'v1') return { min: limits.minBet, max: limits.maxBet };
+  const min = limits.minBet - limits.entropyFee;
+  return { min: min > ZERO ? min : ONE, max: limits.maxBet - limits.entropyFee };
+}
+
+/**
+ * The first revert `placeBet` would hit for this bet, or null if it goes through
+ */
+export function checkBet(amount: bigint, limits: BetLimits): BetIssue | null {
+  const bounds = betBounds(limits);
+  if (amount < bounds.min) return 'BetTooLow';
+  if (amount > bounds.max) return 'BetTooHigh';
+  const payout = betPayout(amount, limits.houseEdgeBps);
+  if (limits.version !== 'v1' && payout - amount <= limits.entropyFee) return 'BetTooLowForEntropyFee';
+  if (limits.houseBalance + betValue(amount, limits.entropyFee) < amount + payout) return 'InsufficientHouseBalance';
+  return null;
+}
+
+/**
+ * Smallest bet whose winnings exceed the entropy fee: `payout - bet > fee`
+ */
+export function minBetForEntropyFee(entropyFee: bigint, houseEdgeBps = DEFAULT_HOUSE_EDGE_BPS): bigint {
+  const winningsBps = payoutMultiplierBps(houseEdgeBps) - BPS;
+  const needed = (entropyFee + ONE) * BPS;
+  return (needed + winningsBps - ONE) / winningsBps;
+}
+
+/**
+ * Largest bet the house balance can cover: `payout <= balance + fee`
+ */
+export function maxBetForHouseBalance(houseBalance: bigint, entropyFee: bigint, houseEdgeBps = DEFAULT_HOUSE_EDGE_BPS): bigint {
+  return ((houseBalance + entropyFee + ONE) * BPS - ONE) / payoutMultiplierBps(houseEdgeBps);
+}
+
+/**
+ * Range of bets that pass every check, or null when none does
+ */
+export function betRange(limits: BetLimits): { min: bigint; max: bigint } | null {
+  const bounds = betBounds(limits);
+  const feeMin = limits.version === 'v1' ? ONE : minBetForEntropyFee(limits.entropyFee, limits.houseEdgeBps);
+  const houseMax = maxBetForHouseBalance(limits.houseBalance, limits.entropyFee, limits.houseEdgeBps);
+  const min = bounds.min > feeMin ? bounds.min : feeMin;
+  const max = bounds.max < houseMax ? bounds.max : houseMax;
+  return min <= max ? { min, max } : null;
+}
+
+export interface QuickPick {
+  label: string;
+  amount: bigint;
+}
+
+/**
+ * Preset amounts for the bet form, each of which passes `checkBet`. The max is also capped by
+ * what the player can pay: their wallet balance minus the entropy fee and `gasReserve`.
+ */
+export function betQuickPicks(limits: BetLimits, walletBalance?: bigint, gasReserve = ZERO): QuickPick[] {
+  const range = betRange(limits);
+  if (!range) return [];
+
+  let max = range.max;
+  if (walletBalance !== undefined) {
+    const affordable = walletBalance - limits.entropyFee - gasReserve;
+    if (affordable < range.min) return [];
+    if (affordable < max) max = affordable;
+  }
+
+  const half = betBounds(limits).max / BigInt(2);
+  const picks: QuickPick[] = [{ label: 'Min', amount: range.min }];
+  if (half > range.min && half < max) picks.push({ label: '½ Max', amount: half });
+  if (max > range.min) picks.push({ label: 'Max', amount: max });
+  return picks;
+}
+
+/**
+ * User-facing explanation of a `checkBet` issue, with the exact bound that was crossed
+ */
+export function describeBetIssue(issue: BetIssue, limits: BetLimits): string {
+  switch (issue) {
+    case 'BetTooLow':
+      return `Minimum bet is ${formatEther(betBounds(limits).min)} MON`;
+    case 'BetTooHigh':
+      return `Maximum bet is ${formatEther(betBounds(limits).max)} MON`;
+    case 'BetTooLowForEntropyFee':
+      return `Bet at least ${formatEther(minBetForEntropyFee(limits.entropyFee, limits.houseEdgeBps))} MON so the winnings cover the ${formatEther(limits.entropyFee)} MON entropy fee`;
+    case 'InsufficientHouseBalance':
+      return `The house can cover bets up to ${formatEther(maxBetForHouseBalance(limits.houseBalance, limits.entropyFee, limits.houseEdgeBps))} MON right now`;
+  }
+}
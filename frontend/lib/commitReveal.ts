@@ -0,0 +1,98 @@
+import { bytesToHex, isHex, keccak256, size, stringToHex, type Hash, type Hex } from 'viem';
+
+/**
+ * The V1 `CoinFlip` commit-reveal flow. The player commits to a secret random number in
+ * `placeBet`, the entropy provider (Fortuna) publishes its revelation for the request's sequence
+ * number once the request is on chain, and `revealResult` combines both into the result.
+ */
+
+// Pyth's Fortuna service and its name for the active chain
+const FORTUNA_URL = process.env.NEXT_PUBLIC_FORTUNA_URL || 'https://fortuna-staging.dourolabs.app';
+const FORTUNA_CHAIN = process.env.NEXT_PUBLIC_FORTUNA_CHAIN || 'monad-testnet';
+
+// How long a reveal waits for the provider to publish its revelation
+export const REVELATION_TIMEOUT_MS = 60000;
+const REVELATION_POLL_MS = 3000;
+
+// Stands in for the player's secret when a bet is simulated before it is placed
+export const PREVIEW_USER_RANDOMNESS: Hex = keccak256(stringToHex('coinflip:preflight'));
+
+export type RevealState =
+  | { phase: 'fetching' }
+  | { phase: 'signing' }
+  | { phase: 'submitted'; txHash: Hash }
+  | { phase: 'failed'; error: string };
+
+/**
+ * 32 random bytes from the browser's CSPRNG; `placeBet` rejects zero
+ */
+export function generateUserRandomness(): Hex {
+  const bytes = new Uint8Array(32);
+  do {
+    crypto.getRandomValues(bytes);
+  } while (bytes.every((byte) => byte === 0));
+  return bytesToHex(bytes);
+}
+
+/**
+ * `keccak256(abi.encodePacked(userRandomness))`, the commitment emitted in `BetPlaced`
+ */
+export function userCommitment(userRandomness: Hex): Hash {
+  return keccak256(userRandomness);
+}
+
+export function secretStorageKey(chainId: number, player: string): string {
+  return `coinflip:v1-secrets:${chainId}:${player.toLowerCase()}`;
+}
+
+// Secrets of an account by game id; integer keys iterate in ascending order, so oldest first
+export type StoredSecrets = Record<string, Hex>;
+
+// Older secrets are dropped beyond this; their games are long settled
+export const MAX_STORED_SECRETS = 100;
+
+export function addStoredSecret(secrets: StoredSecrets, gameId: bigint, userRandomness: Hex): StoredSecrets {
+  const entries = Object.entries({ ...secrets, [gameId.toString()]: userRandomness });
+  return Object.fromEntries(entries.slice(-MAX_STORED_SECRETS)) as StoredSecrets;
+}
+
+/**
+ * Why a game can't be revealed with the randomness the contract holds for it, or null when it
+ * can. A game this browser didn't place has no stored secret and is left to the contract.
+ */
+export function checkStoredSecret(stored: Hex | undefined, onChain: Hex): string | null {
+  if (!stored || stored.toLowerCase() === onChain.toLowerCase()) return null;
+  return 'The randomness stored for this game does not match the one on chain, so it was not revealed.';
+}
+
+/**
+ * The provider's revelation for a request, or null while Fortuna can't serve it yet (the
+ * request isn't confirmed, or not indexed by the provider)
+ */
+export async function fetchProviderRevelation(sequenceNumber: bigint): Promise<Hex | null> {
+  const response = await fetch(`${FORTUNA_URL}/v1/chains/${FORTUNA_CHAIN}/revelations/${sequenceNumber}`);
+  if (!response.ok) return null;
+
+  const body = (await response.json()) as { value?: { data?: string } };
+  const data = body.value?.data;
+  const revelation = data && !data.startsWith('0x') ? `0x${data}` : data;
+  if (!revelation || !isHex(revelation) || size(revelation) !== 32) {
+    throw new Error(`Unexpected revelation for request ${sequenceNumber}`);
+  }
+  return revelation;
+}
+
+/**
+ * Poll Fortuna until the revelation is published or `timeoutMs` has passed
+ */
+export async function waitForProviderRevelation(sequenceNumber: bigint, timeoutMs = REVELATION_TIMEOUT_MS): Promise<Hex> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const revelation = await fetchProviderRevelation(sequenceNumber);
+    if (revelation) return revelation;
+    if (Date.now() + REVELATION_POLL_MS > deadline) {
+      throw new Error('The entropy provider has not revealed this request yet. Try again in a moment.');
+    }
+    await new Promise((resolve) => setTimeout(resolve, REVELATION_POLL_MS));
+  }
+}
@@ -0,0 +1,156 @@
+import { decodeErrorResult, isHex, UserRejectedRequestError, type ContractFunctionRevertedError, type Hex } from 'viem';
+import { COIN_FLIP_V2_ABI, COIN_FLIP_V2_ERRORS, type CoinFlipV2ErrorName } from '../config/abi/CoinFlipV2';
+
+/**
+ * Turns whatever a wallet, wagmi or viem throws into a typed error code, and the code into a
+ * message for the user. Contract reverts are decoded against the CoinFlipV2 ABI, so every
+ * custom error has its own entry in the catalogue; `require` reasons are passed through.
+ */
+
+export type WalletErrorCode = 'UserRejected' | 'InsufficientFunds' | 'WrongChain';
+
+// `Reverted`: a `require` reason or an error outside the ABI; `Unknown`: anything else
+export type ErrorCode = CoinFlipV2ErrorName | WalletErrorCode | 'Reverted' | 'Unknown';
+
+export interface DecodedError {
+  code: ErrorCode;
+  // Revert reason, unknown error signature, or the original message
+  detail?: string;
+}
+
+export type Locale = 'en' | 'es';
+
+export const ERROR_MESSAGES: Record<Locale, Record<ErrorCode, string>> = {
+  en: {
+    InsufficientFee: 'The amount sent does not cover the Pyth Entropy fee.',
+    InvalidChoice: 'Pick heads or tails.',
+    BetTooLow: 'The bet is below the minimum bet.',
+    BetTooHigh: 'The bet is above the maximum bet.',
+    BetTooLowForEntropyFee: 'The bet is too low: its winnings would not cover the entropy fee.',
+    InsufficientHouseBalance: 'The house cannot cover this payout right now. Try a smaller bet.',
+    OnlyOwner: 'Only the contract owner can do this.',
+    PayoutFailed: 'The payout transfer failed.',
+    RefundFailed: 'The refund transfer failed. Please try again.',
+    WithdrawalFailed: 'The withdrawal transfer failed.',
+    GameNotPending: 'This game has already been revealed or cancelled.',
+    NotPlayer: 'Only the player who placed this bet can cancel it.',
+    CannotCancelYet: 'This game cannot be cancelled until one hour after the bet.',
+    UserRejected: 'Transaction rejected in the wallet.',
+    InsufficientFunds: 'Your wallet does not hold enough MON for this transaction and its gas.',
+    WrongChain: 'Your wallet is connected to the wrong network.',
+    Reverted: 'The transaction was reverted',
+    Unknown: 'The transaction failed',
+  },
+  es: {
+    InsufficientFee: 'El importe enviado no cubre la comisión de Pyth Entropy.',
+    InvalidChoice: 'Elige cara o cruz.',
+    BetTooLow: 'La apuesta es menor que la apuesta mínima.',
+    BetTooHigh: 'La apuesta es mayor que la apuesta máxima.',
+    BetTooLowForEntropyFee: 'La apuesta es demasiado baja: sus ganancias no cubrirían la comisión de entropía.',
+    InsufficientHouseBalance: 'La casa no puede cubrir este pago ahora mismo. Prueba con una apuesta menor.',
+    OnlyOwner: 'Solo el propietario del contrato puede hacer esto.',
+    PayoutFailed: 'La transferencia del premio ha fallado.',
+    RefundFailed: 'La transferencia del reembolso ha fallado. Inténtalo de nuevo.',
+    WithdrawalFailed: 'La transferencia de la retirada ha fallado.',
+    GameNotPending: 'Esta partida ya se ha revelado o cancelado.',
+    NotPlayer: 'Solo el jugador que hizo esta apuesta puede cancelarla.',
+    CannotCancelYet: 'Esta partida no se puede cancelar hasta una hora después de la apuesta.',
+    UserRejected: 'Transacción rechazada en la cartera.',
+    InsufficientFunds: 'Tu cartera no tiene suficientes MON para esta transacción y su gas.',
+    WrongChain: 'Tu cartera está conectada a la red equivocada.',
+    Reverted: 'La transacción fue revertida',
+    Unknown: 'La transacción ha fallado',
+  },
+};
+
+// Matched by name rather than `instanceof`, which fails across duplicate copies of viem and
+// for wagmi's own error classes
+const WRONG_CHAIN_ERRORS = [
+  'ChainMismatchError',
+  'SwitchChainError',
+  'ConnectorChainMismatchError',
+  'ChainNotConfiguredError',
+  'SwitchChainNotSupportedError',
+];
+
+function errorName(error: unknown): string | undefined {
+  return error instanceof Error ? error.name : undefined;
+}
+
+// An error and its causes, outermost first; wagmi and viem errors both chain through `cause`
+function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = error;
+  while (current && typeof current === 'object' && !chain.includes(current)) {
+    chain.push(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return chain;
+}
+
+function isCoinFlipError(name: string): name is CoinFlipV2ErrorName {
+  return (COIN_FLIP_V2_ERRORS as readonly string[]).includes(name);
+}
+
+// Revert data the wallet passed through without decoding it, e.g. from eth_estimateGas
+function decodeRevertData(data: Hex): DecodedError {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: COIN_FLIP_V2_ABI, data });
+    return isCoinFlipError(errorName) ? { code: errorName } : { code: 'Reverted', detail: String((args as readonly unknown[] | undefined)?.[0] ?? errorName) };
+  } catch {
+    return { code: 'Reverted', detail: data.slice(0, 10) };
+  }
+}
+
+export function decodeError(error: unknown): DecodedError {
+  const chain = errorChain(error);
+
+  const revert = chain.find((err): err is ContractFunctionRevertedError => errorName(err) === 'ContractFunctionRevertedError');
+  if (revert) {
+    const name = revert.data?.errorName;
+    if (name && isCoinFlipError(name)) return { code: name };
+    if (revert.reason) return { code: 'Reverted', detail: revert.reason };
+    if (revert.raw) return decodeRevertData(revert.raw);
+    return { code: 'Reverted', detail: revert.signature };
+  }
+
+  for (const err of chain) {
+    const name = errorName(err) ?? '';
+    if (name === 'UserRejectedRequestError' || (err as { code?: unknown }).code === UserRejectedRequestError.code) {
+      return { code: 'UserRejected' };
+    }
+    if (name === 'InsufficientFundsError') return { code: 'InsufficientFunds' };
+    if (WRONG_CHAIN_ERRORS.includes(name)) return { code: 'WrongChain' };
+
+    const data = (err as { data?: unknown }).data;
+    if (typeof data === 'string' && isHex(data) && data.length >= 10) return decodeRevertData(data);
+  }
+
+  const outer = chain[0];
+  const detail =
+    outer instanceof Error ? ((outer as { shortMessage?: string }).shortMessage ?? outer.message) : error === undefined ? undefined : String(error);
+  return { code: 'Unknown', detail };
+}
+
+function isLocale(language: string): language is Locale {
+  return Object.keys(ERROR_MESSAGES).includes(language);
+}
+
+/**
+ * The first of the browser's preferred languages that has a catalogue, `en` when none does
+ */
+export function preferredLocale(): Locale {
+  if (typeof navigator === 'undefined') return 'en';
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return languages.map((language) => language.split('-')[0].toLowerCase()).find(isLocale) ?? 'en';
+}
+
+/**
+ * User-facing message for any error thrown by a contract write or the wallet, in the browser's language
+ */
+export function describeError(error: unknown, locale: Locale = preferredLocale()): string {
+  const { code, detail } = decodeError(error);
+  const message = ERROR_MESSAGES[locale][code];
+  if (code === 'Reverted' || code === 'Unknown') return detail ? `${message}: ${detail.substring(0, 120)}` : `${message}.`;
+  return message;
+}
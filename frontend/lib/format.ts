@@ -0,0 +1,42 @@
+import { formatEther, parseEther, type Address } from 'viem';
+
+/**
+ * `0x1234...abcd`, the short form used for addresses everywhere in the UI
+ */
+export function shortenAddress(address: Address | string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Wei (as bigint or decimal string) to a fixed-precision MON amount, without the unit
+ */
+export function formatMon(wei: bigint | string, digits = 2): string {
+  return parseFloat(formatEther(BigInt(wei))).toFixed(digits);
+}
+
+/**
+ * Signed profit or loss with an explicit sign, e.g. `+0.19 MON`
+ */
+export function formatSignedMon(wei: bigint | string, digits = 2): string {
+  const value = BigInt(wei);
+  const negative = value < BigInt(0);
+  return `${negative ? '-' : '+'}${formatMon(negative ? -value : value, digits)} MON`;
+}
+
+/**
+ * A MON amount typed by the user, in wei, or null if it isn't a plain decimal. Anything
+ * `parseEther` would round or reject (signs, exponents, more than 18 decimals) is refused.
+ */
+export function parseMonAmount(input: string): bigint | null {
+  const trimmed = input.trim();
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed) || (trimmed.split('.')[1]?.length ?? 0) > 18) return null;
+  return parseEther(trimmed);
+}
+
+/**
+ * Like `parseMonAmount`, for amounts that must be positive
+ */
+export function parseMon(amount: string): bigint | null {
+  const wei = parseMonAmount(amount);
+  return wei !== null && wei > BigInt(0) ? wei : null;
+}
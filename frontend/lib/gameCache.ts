@@ -0,0 +1,107 @@
+import { CoinFlipV2GameState, type CoinFlipV2Game } from '../config/abi/CoinFlipV2';
+import { publicClient } from '../config/client';
+import { COIN_FLIP_ABI, COIN_FLIP_ADDRESS, COIN_FLIP_VERSION } from '../config/contract';
+import type { PlayerGame } from './player';
+
+// Game reads shared by every component in the tab. Revealed and cancelled games never change
+// again, so they are read once; pending games are read again each time they're asked for.
+
+const settledGames = new Map<string, CoinFlipV2Game>();
+
+// Games per `getGamesBatch` call, which keeps each call well within the node's gas cap
+const GAMES_BATCH_SIZE = 100;
+
+export function isGameSettled(game: CoinFlipV2Game): boolean {
+  return game.state !== CoinFlipV2GameState.Pending;
+}
+
+/**
+ * Remember games read elsewhere, e.g. from the indexer; pending ones are ignored
+ */
+export function cacheGames(games: readonly PlayerGame[]): void {
+  for (const { id, game } of games) {
+    if (isGameSettled(game)) settledGames.set(id.toString(), game);
+  }
+}
+
+// `getGamesBatch` reads up to GAMES_BATCH_SIZE games per call. An unknown id comes back as an
+// empty game rather than a revert, as with `getGame`.
+async function readGamesBatch(ids: readonly bigint[]): Promise<CoinFlipV2Game[]> {
+  const batches: Promise<readonly CoinFlipV2Game[]>[] = [];
+  for (let start = 0; start < ids.length; start += GAMES_BATCH_SIZE) {
+    batches.push(
+      publicClient.readContract({
+        address: COIN_FLIP_ADDRESS,
+        abi: COIN_FLIP_ABI,
+        functionName: 'getGamesBatch',
+        args: [ids.slice(start, start + GAMES_BATCH_SIZE)],
+      })
+    );
+  }
+  return (await Promise.all(batches)).flat();
+}
+
+// `getGame` calls batched into a few `eth_call`s through Multicall3 when the chain has it,
+// otherwise sent concurrently (e.g. to a local anvil node, which starts without Multicall3).
+// Failed reads come back as null.
+async function readGamesOneByOne(ids: readonly bigint[]): Promise<(CoinFlipV2Game | null)[]> {
+  if (publicClient.chain?.contracts?.multicall3) {
+    const results = await publicClient.multicall({
+      contracts: ids.map((id) => ({
+        address: COIN_FLIP_ADDRESS,
+        abi: COIN_FLIP_ABI,
+        functionName: 'getGame' as const,
+        args: [id] as const,
+      })),
+      allowFailure: true,
+    });
+    return results.map((result) => (result.status === 'success' ? result.result : null));
+  }
+
+  return Promise.all(
+    ids.map((id) =>
+      publicClient
+        .readContract({ address: COIN_FLIP_ADDRESS, abi: COIN_FLIP_ABI, functionName: 'getGame', args: [id] })
+        .catch(() => null)
+    )
+  );
+}
+
+// V1, and V2 deployments from before `getGamesBatch`, only have `getGame`
+async function readGamesFromChain(ids: readonly bigint[]): Promise<(CoinFlipV2Game | null)[]> {
+  if (COIN_FLIP_VERSION === 'v2') {
+    try {
+      return await readGamesBatch(ids);
+    } catch (error) {
+      console.warn('[Games] getGamesBatch failed, reading games one by one:', error);
+    }
+  }
+  return readGamesOneByOne(ids);
+}
+
+/**
+ * The games behind `ids`, in the same order. Only pending and uncached games are read from the
+ * chain; games that can't be read are left out.
+ */
+export async function readGames(ids: readonly bigint[]): Promise<PlayerGame[]> {
+  const missing = ids.filter((id) => !settledGames.has(id.toString()));
+  const fresh = new Map<string, CoinFlipV2Game>();
+
+  if (missing.length > 0) {
+    const games = await readGamesFromChain(missing);
+    missing.forEach((id, index) => {
+      const game = games[index];
+      if (!game) {
+        console.error(`[Games] Error fetching game ${id}`);
+        return;
+      }
+      fresh.set(id.toString(), game);
+      if (isGameSettled(game)) settledGames.set(id.toString(), game);
+    });
+  }
+
+  return ids.flatMap((id) => {
+    const game = settledGames.get(id.toString()) ?? fresh.get(id.toString());
+    return game ? [{ id, game }] : [];
+  });
+}
@@ -0,0 +1,53 @@
+// The house edge of `CoinFlipV2`, in basis points. A win pays twice the bet minus twice the edge
+// (1.9x at 5%), and every revealed game accrues the edge of its bet to `houseFees`. Each game is
+// settled with the edge it was placed with. V1 has no setting and always uses the default.
+
+export const BPS = BigInt(10000);
+export const DEFAULT_HOUSE_EDGE_BPS = BigInt(500);
+// Bounds enforced by `setHouseEdge`
+export const MIN_HOUSE_EDGE_BPS = BigInt(100);
+export const MAX_HOUSE_EDGE_BPS = BigInt(1000);
+
+/**
+ * Winning payout per unit bet, in basis points: `2 * (10000 - edge)`
+ */
+export function payoutMultiplierBps(houseEdgeBps: bigint): bigint {
+  return BigInt(2) * (BPS - houseEdgeBps);
+}
+
+/**
+ * Sent to a winner, stake included, rounded down like the contract
+ */
+export function winPayout(amount: bigint, houseEdgeBps: bigint): bigint {
+  return (amount * payoutMultiplierBps(houseEdgeBps)) / BPS;
+}
+
+/**
+ * Accrued to `houseFees` when a game is revealed, won or lost
+ */
+export function houseFee(amount: bigint, houseEdgeBps: bigint): bigint {
+  return (amount * houseEdgeBps) / BPS;
+}
+
+/**
+ * A percentage such as `2.5` in basis points, or null when it isn't a number. The bounds are
+ * left to the caller.
+ */
+export function parseHouseEdgePercent(input: string): bigint | null {
+  const percent = Number(input);
+  return input.trim() !== '' && Number.isFinite(percent) ? BigInt(Math.round(percent * 100)) : null;
+}
+
+/**
+ * The payout as a multiple of the bet, e.g. `1.9x`
+ */
+export function formatMultiplier(houseEdgeBps: bigint): string {
+  return `${Number(payoutMultiplierBps(houseEdgeBps)) / Number(BPS)}x`;
+}
+
+/**
+ * The edge as a percentage, e.g. `5%`
+ */
+export function formatHouseEdge(houseEdgeBps: bigint): string {
+  return `${Number(houseEdgeBps) / 100}%`;
+}
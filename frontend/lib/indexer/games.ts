@@ -0,0 +1,47 @@
+import type { IndexedGame, IndexerState } from './types';
+
+/**
+ * Fold the stored logs into one record per game, ordered by game id.
+ */
+export function deriveGames(state: IndexerState): IndexedGame[] {
+  const games = new Map<string, IndexedGame>();
+  const cancelled = new Set(state.cancelledGames);
+
+  for (const log of state.logs) {
+    if (log.event === 'BetPlaced') {
+      games.set(log.gameId, {
+        gameId: log.gameId,
+        player: log.player,
+        betAmount: log.amount,
+        entropyFee: log.entropyFee,
+        choice: log.choice,
+        sequenceNumber: log.sequenceNumber,
+        state: cancelled.has(log.gameId) ? 'Cancelled' : 'Pending',
+        result: null,
+        won: null,
+        payout: '0',
+        placedAt: log.timestamp,
+        placedBlock: log.blockNumber,
+        betTxHash: log.transactionHash,
+        revealedAt: null,
+        revealedBlock: null,
+        resultTxHash: null,
+      });
+    } else if (log.event === 'GameResult') {
+      const game = games.get(log.gameId);
+      if (!game) continue;
+      game.state = 'Revealed';
+      game.result = log.result;
+      game.won = log.won;
+      game.payout = log.payout;
+      game.revealedAt = log.timestamp;
+      game.revealedBlock = log.blockNumber;
+      game.resultTxHash = log.transactionHash;
+    }
+  }
+
+  return [...games.values()].sort((a, b) => {
+    const diff = BigInt(a.gameId) - BigInt(b.gameId);
+    return diff === BigInt(0) ? 0 : diff < BigInt(0) ? -1 : 1;
+  });
+}
@@ -0,0 +1,50 @@
+import path from 'path';
+import { createPublicClient, http, type Address } from 'viem';
+import { ACTIVE_CHAIN } from '../../config/chains';
+import { COIN_FLIP_DEPLOYMENT } from '../../config/contract';
+import { createIndexer, type Indexer } from './indexer';
+import { createJsonFileStore } from './store';
+
+export type { Indexer, IndexerUpdate, SyncOptions } from './indexer';
+export type * from './types';
+
+// API routes sync on read, but never more often than this
+export const READ_MAX_AGE = 2000;
+
+function createIndexerFromEnv(): Indexer {
+  const rpcUrl = process.env.INDEXER_RPC_URL || ACTIVE_CHAIN.rpcUrls.default.http[0];
+  const address = (process.env.INDEXER_CONTRACT_ADDRESS || COIN_FLIP_DEPLOYMENT.address) as Address;
+  // Backfilling a public chain from genesis would take millions of log requests
+  const startBlock = process.env.INDEXER_START_BLOCK || COIN_FLIP_DEPLOYMENT.startBlock;
+  if (startBlock === undefined) {
+    throw new Error(
+      `No start block for the CoinFlip ${COIN_FLIP_DEPLOYMENT.version} deployment on chain ${ACTIVE_CHAIN.id}; ` +
+        'set its NEXT_PUBLIC_<CHAIN>_COIN_FLIP_<VERSION>_START_BLOCK or INDEXER_START_BLOCK'
+    );
+  }
+
+  const client = createPublicClient({
+    transport: http(rpcUrl, { batch: true }),
+  });
+
+  return createIndexer({
+    client,
+    address,
+    version: COIN_FLIP_DEPLOYMENT.version,
+    store: createJsonFileStore(process.env.INDEXER_DATA_DIR || path.join(process.cwd(), '.indexer')),
+    startBlock: Number(startBlock),
+    blockRange: Number(process.env.INDEXER_BLOCK_RANGE || 100),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 0),
+    pollInterval: Number(process.env.INDEXER_POLL_INTERVAL || 2000),
+  });
+}
+
+// Keep a single instance per server process, including across dev-mode hot reloads
+const globalForIndexer = globalThis as unknown as { coinFlipIndexer?: Indexer };
+
+export function getIndexer(): Indexer {
+  if (!globalForIndexer.coinFlipIndexer) {
+    globalForIndexer.coinFlipIndexer = createIndexerFromEnv();
+  }
+  return globalForIndexer.coinFlipIndexer;
+}
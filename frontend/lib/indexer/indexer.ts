@@ -0,0 +1,358 @@
+import { isAddressEqual, type Address, type Hash, type PublicClient } from 'viem';
+import { COIN_FLIP_V1_ABI } from '../../config/abi/CoinFlip';
+import { COIN_FLIP_V2_ABI, CoinFlipV2GameState } from '../../config/abi/CoinFlipV2';
+import { COIN_FLIP_ABI } from '../../config/contract';
+import type { ContractVersion } from '../../config/deployments';
+import { deriveGames } from './games';
+import { createStatsAccumulator } from './stats';
+import { createEmptyState, type IndexerStore } from './store';
+import type { IndexedGame, IndexedLog, IndexerState, IndexerSummary } from './types';
+
+const INDEXED_EVENT_NAMES = ['BetPlaced', 'GameResult', 'HouseFundsDeposited', 'HouseFundsWithdrawn', 'HouseEdgeUpdated'] as const;
+
+type IndexedEventAbi = Extract<
+  (typeof COIN_FLIP_V1_ABI)[number] | (typeof COIN_FLIP_V2_ABI)[number],
+  { type: 'event'; name: (typeof INDEXED_EVENT_NAMES)[number] }
+>;
+
+const indexedEvents = (abi: readonly { type: string; name?: string }[]) =>
+  abi.filter(
+    (item) => item.type === 'event' && (INDEXED_EVENT_NAMES as readonly string[]).includes(item.name ?? '')
+  ) as IndexedEventAbi[];
+
+// V1 emits `BetPlaced` with a different signature (it adds the user commitment and doesn't index
+// the game id), so its logs only match its own ABI. It has no `HouseEdgeUpdated`.
+const INDEXED_EVENTS: Record<ContractVersion, IndexedEventAbi[]> = {
+  v1: indexedEvents(COIN_FLIP_V1_ABI),
+  v2: indexedEvents(COIN_FLIP_V2_ABI),
+};
+
+// How many recent block hashes to remember; a reorg deeper than this triggers a full reindex
+const MAX_CHECKPOINTS = 64;
+// Games can only be cancelled an hour after they were placed (CoinFlipV2.cancelGame)
+const CANCEL_DELAY_SECONDS = 60 * 60;
+// A pending game is re-read this long after it became cancellable, then at doubling intervals up to
+// a day. One still pending a week after that is taken as abandoned and no longer checked.
+const RECONCILE_FIRST_DELAY_SECONDS = 60;
+const RECONCILE_MAX_DELAY_SECONDS = 24 * 60 * 60;
+const RECONCILE_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+export interface IndexerOptions {
+  client: PublicClient;
+  address: Address;
+  version: ContractVersion;
+  store: IndexerStore;
+  startBlock: number;
+  // Maximum block span of a single eth_getLogs call
+  blockRange: number;
+  // Blocks to stay behind the chain head
+  confirmations: number;
+  pollInterval: number;
+}
+
+export interface SyncOptions {
+  // Skip syncing if the last successful sync is younger than this many milliseconds
+  maxAge?: number;
+}
+
+// Pushed to subscribers as the tail stores new logs or rolls back a reorg
+export type IndexerUpdate = { type: 'logs'; logs: IndexedLog[] } | { type: 'reorg'; lastBlock: number };
+
+export interface Indexer {
+  sync(options?: SyncOptions): Promise<IndexerState>;
+  start(): void;
+  stop(): void;
+  // Listen for updates until the returned function is called
+  subscribe(listener: (update: IndexerUpdate) => void): () => void;
+  getGames(options?: SyncOptions): Promise<IndexedGame[]>;
+  getSummary(options?: SyncOptions): Promise<IndexerSummary>;
+}
+
+export function createIndexer(options: IndexerOptions): Indexer {
+  const { client, address, version, store, startBlock, blockRange, confirmations, pollInterval } = options;
+
+  let state: IndexerState | null = null;
+  let inFlight: Promise<IndexerState> | null = null;
+  let lastSyncedAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every change to the stored logs so derived games are only rebuilt when needed
+  let revision = 0;
+  let derived: { revision: number; games: IndexedGame[] } | null = null;
+  // Aggregates are folded in as logs arrive and only rebuilt after a reorg
+  let stats = createStatsAccumulator();
+  const listeners = new Set<(update: IndexerUpdate) => void>();
+  // When each stale pending game is due for its next getGame read, in chain time
+  const reconcileSchedule = new Map<string, { nextCheck: number; delay: number }>();
+
+  const publish = (update: IndexerUpdate) => {
+    for (const listener of listeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error('[Indexer] Subscriber failed:', error);
+      }
+    }
+  };
+
+  const getBlockHash = async (blockNumber: number): Promise<Hash | null> => {
+    try {
+      const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+      return block.hash;
+    } catch {
+      return null;
+    }
+  };
+
+  const loadState = async (): Promise<IndexerState> => {
+    if (state) return state;
+    const chainId = await client.getChainId();
+    state = (await store.load(chainId, address)) ?? createEmptyState(chainId, address, startBlock);
+    return state;
+  };
+
+  // Walk back through the stored checkpoints until one still matches the chain, then drop everything after it
+  const rollbackReorgs = async (current: IndexerState) => {
+    const { checkpoints } = current;
+    if (checkpoints.length === 0) return;
+
+    let ancestor = current.startBlock - 1;
+    let kept = 0;
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+      if ((await getBlockHash(checkpoints[i].number)) === checkpoints[i].hash) {
+        ancestor = checkpoints[i].number;
+        kept = i + 1;
+        break;
+      }
+    }
+
+    if (kept === checkpoints.length) return;
+
+    console.warn(`[Indexer] Reorg detected, rolling back from block ${current.lastBlock} to ${ancestor}`);
+    current.logs = current.logs.filter((log) => log.blockNumber <= ancestor);
+    current.checkpoints = checkpoints.slice(0, kept);
+    current.lastBlock = ancestor;
+    if (kept === 0) current.cancelledGames = [];
+    revision++;
+    stats = createStatsAccumulator();
+    publish({ type: 'reorg', lastBlock: ancestor });
+  };
+
+  const fetchRange = async (fromBlock: number, toBlock: number): Promise<IndexedLog[]> => {
+    const logs = await client.getLogs({
+      address,
+      events: INDEXED_EVENTS[version],
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    });
+
+    // Fetch each block once for its timestamp and to make sure the logs still belong to the canonical chain
+    const blockNumbers = [...new Set(logs.map((log) => Number(log.blockNumber)))];
+    const blocks = new Map(
+      await Promise.all(
+        blockNumbers.map(async (blockNumber) => {
+          const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+          return [blockNumber, block] as const;
+        })
+      )
+    );
+
+    // The entropy fee isn't in the event; it is what the bet transaction sent on top of the bet
+    const betTxHashes = [...new Set(logs.filter((log) => log.eventName === 'BetPlaced').map((log) => log.transactionHash))];
+    const betTransactions = new Map(
+      await Promise.all(betTxHashes.map(async (hash) => [hash, await client.getTransaction({ hash })] as const))
+    );
+
+    return logs.map((log): IndexedLog => {
+      const block = blocks.get(Number(log.blockNumber));
+      if (!block || block.hash !== log.blockHash) {
+        throw new Error(`Block ${log.blockNumber} changed while indexing`);
+      }
+
+      const position = {
+        blockNumber: Number(log.blockNumber),
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        timestamp: Number(block.timestamp),
+      };
+
+      switch (log.eventName) {
+        case 'BetPlaced': {
+          const tx = betTransactions.get(log.transactionHash);
+          const direct = tx?.to && isAddressEqual(tx.to, address);
+          return {
+            ...position,
+            event: 'BetPlaced',
+            player: log.args.player!,
+            gameId: log.args.gameId!.toString(),
+            amount: log.args.amount!.toString(),
+            choice: log.args.choice!,
+            sequenceNumber: log.args.sequenceNumber!.toString(),
+            entropyFee: direct ? (tx.value - log.args.amount!).toString() : null,
+          };
+        }
+        case 'GameResult':
+          return {
+            ...position,
+            event: 'GameResult',
+            player: log.args.player!,
+            gameId: log.args.gameId!.toString(),
+            choice: log.args.choice!,
+            result: log.args.result!,
+            won: log.args.won!,
+            payout: log.args.payout!.toString(),
+          };
+        case 'HouseFundsDeposited':
+          return { ...position, event: 'HouseFundsDeposited', sender: log.args.sender!, amount: log.args.amount!.toString() };
+        case 'HouseFundsWithdrawn':
+          return { ...position, event: 'HouseFundsWithdrawn', owner: log.args.owner!, amount: log.args.amount!.toString() };
+        case 'HouseEdgeUpdated':
+          return {
+            ...position,
+            event: 'HouseEdgeUpdated',
+            previousEdgeBps: log.args.previousEdgeBps!.toString(),
+            newEdgeBps: log.args.newEdgeBps!.toString(),
+          };
+      }
+    });
+  };
+
+  // cancelGame emits no event, so pending games past the cancel delay are checked against getGame,
+  // each on its own backoff schedule
+  const reconcileCancelled = async (current: IndexerState, headTimestamp: number) => {
+    const pending = deriveGames(current).filter((game) => {
+      const cancellableAt = game.placedAt + CANCEL_DELAY_SECONDS;
+      return (
+        game.state === 'Pending' &&
+        cancellableAt < headTimestamp &&
+        cancellableAt + RECONCILE_WINDOW_SECONDS >= headTimestamp
+      );
+    });
+    // Forget games that were revealed, cancelled or given up on in the meantime
+    const pendingIds = new Set(pending.map((game) => game.gameId));
+    for (const gameId of reconcileSchedule.keys()) {
+      if (!pendingIds.has(gameId)) reconcileSchedule.delete(gameId);
+    }
+
+    const stale = pending.filter((game) => (reconcileSchedule.get(game.gameId)?.nextCheck ?? 0) <= headTimestamp);
+    if (stale.length === 0) return false;
+
+    for (const game of stale) {
+      const delay = Math.min(
+        (reconcileSchedule.get(game.gameId)?.delay ?? RECONCILE_FIRST_DELAY_SECONDS / 2) * 2,
+        RECONCILE_MAX_DELAY_SECONDS
+      );
+      reconcileSchedule.set(game.gameId, { nextCheck: headTimestamp + delay, delay });
+    }
+
+    const onChain = await Promise.all(
+      stale.map((game) =>
+        client.readContract({
+          address,
+          abi: COIN_FLIP_ABI,
+          functionName: 'getGame',
+          args: [BigInt(game.gameId)],
+        })
+      )
+    );
+
+    let changed = false;
+    onChain.forEach((game, i) => {
+      if (game.state === CoinFlipV2GameState.Cancelled) {
+        current.cancelledGames.push(stale[i].gameId);
+        revision++;
+        changed = true;
+      }
+    });
+    return changed;
+  };
+
+  const syncOnce = async (): Promise<IndexerState> => {
+    const current = await loadState();
+    await rollbackReorgs(current);
+
+    const head = await client.getBlock();
+    const target = Number(head.number) - confirmations;
+
+    while (current.lastBlock < target) {
+      const fromBlock = current.lastBlock + 1;
+      const toBlock = Math.min(fromBlock + blockRange - 1, target);
+
+      const toHash = await getBlockHash(toBlock);
+      const logs = await fetchRange(fromBlock, toBlock);
+      if (!toHash || (await getBlockHash(toBlock)) !== toHash) {
+        throw new Error(`Block ${toBlock} changed while indexing`);
+      }
+
+      current.logs.push(...logs);
+      if (logs.length > 0) revision++;
+      current.lastBlock = toBlock;
+      current.checkpoints.push({ number: toBlock, hash: toHash });
+      if (current.checkpoints.length > MAX_CHECKPOINTS) {
+        current.checkpoints.splice(0, current.checkpoints.length - MAX_CHECKPOINTS);
+      }
+      await store.save(current);
+      if (logs.length > 0) publish({ type: 'logs', logs });
+    }
+
+    if (await reconcileCancelled(current, Number(head.timestamp))) {
+      await store.save(current);
+    }
+
+    lastSyncedAt = Date.now();
+    return current;
+  };
+
+  const sync = async ({ maxAge = 0 }: SyncOptions = {}): Promise<IndexerState> => {
+    if (state && Date.now() - lastSyncedAt < maxAge) return state;
+    if (!inFlight) {
+      inFlight = syncOnce().finally(() => {
+        inFlight = null;
+      });
+    }
+    return inFlight;
+  };
+
+  const getGames = async (syncOptions?: SyncOptions) => {
+    const current = await sync(syncOptions);
+    if (!derived || derived.revision !== revision) {
+      derived = { revision, games: deriveGames(current) };
+    }
+    return derived.games;
+  };
+
+  const getSummary = async (syncOptions?: SyncOptions) => {
+    const current = await sync(syncOptions);
+    stats.update(current);
+    return stats.summary(current);
+  };
+
+  const tick = async () => {
+    try {
+      await sync();
+    } catch (error) {
+      console.error('[Indexer] Sync failed:', error);
+    }
+    if (timer) timer = setTimeout(tick, pollInterval);
+  };
+
+  return {
+    sync,
+    getGames,
+    getSummary,
+    start() {
+      if (timer) return;
+      timer = setTimeout(tick, 0);
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import type { Address } from 'viem';
+import { DEFAULT_HOUSE_EDGE_BPS, houseFee } from '../houseEdge';
+import type { IndexerState, IndexerSummary } from './types';
+
+interface OpenBet {
+  amount: bigint;
+  placedAt: number;
+  // Accrued to house fees when the game is revealed
+  houseEdgeBps: bigint;
+}
+
+export interface StatsAccumulator {
+  /** Fold in the logs and cancellations added to the state since the last call */
+  update(state: IndexerState): void;
+  summary(state: IndexerState): IndexerSummary;
+}
+
+/**
+ * Chi-squared statistic of the observed heads/tails counts against a fair coin (1 degree of freedom)
+ */
+export function chiSquared(heads: number, tails: number): number {
+  const total = heads + tails;
+  if (total === 0) return 0;
+  return (heads - tails) ** 2 / total;
+}
+
+// Complementary error function, Abramowitz & Stegun 7.1.26 (absolute error below 1.5e-7)
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return poly * Math.exp(-x * x);
+}
+
+/**
+ * Probability of a result at least this lopsided from a fair coin; small values suggest bias
+ */
+export function chiSquaredPValue(statistic: number): number {
+  return erfc(Math.sqrt(statistic / 2));
+}
+
+/**
+ * Running platform statistics. Logs are only ever appended between reorgs, so each sync
+ * folds in just the new entries; after a rollback the indexer starts a fresh accumulator.
+ */
+export function createStatsAccumulator(): StatsAccumulator {
+  let logCount = 0;
+  let cancelledCount = 0;
+
+  const openBets = new Map<string, OpenBet>();
+  let totalGames = 0;
+  let revealedGames = 0;
+  let playerWins = 0;
+  let heads = 0;
+  let tails = 0;
+  let totalWagered = BigInt(0);
+  let totalPaidOut = BigInt(0);
+  let houseFees = BigInt(0);
+  let housePnl = BigInt(0);
+  let houseDeposits = BigInt(0);
+  let houseWithdrawals = BigInt(0);
+  let largestWin: IndexerSummary['largestWin'] = null;
+  let revealSeconds = 0;
+  // Set by the constructor's `HouseEdgeUpdated`; V1 never emits one and keeps the default
+  let houseEdgeBps = DEFAULT_HOUSE_EDGE_BPS;
+
+  return {
+    update(state) {
+      for (const log of state.logs.slice(logCount)) {
+        switch (log.event) {
+          case 'BetPlaced':
+            totalGames++;
+            totalWagered += BigInt(log.amount);
+            openBets.set(log.gameId, { amount: BigInt(log.amount), placedAt: log.timestamp, houseEdgeBps });
+            break;
+          case 'GameResult': {
+            const bet = openBets.get(log.gameId);
+            if (!bet) break;
+            openBets.delete(log.gameId);
+
+            const payout = BigInt(log.payout);
+            revealedGames++;
+            revealSeconds += log.timestamp - bet.placedAt;
+            if (log.result === 0) heads++;
+            else tails++;
+
+            totalPaidOut += payout;
+            houseFees += houseFee(bet.amount, bet.houseEdgeBps);
+            housePnl += bet.amount - payout;
+
+            if (log.won) {
+              playerWins++;
+              if (!largestWin || payout > BigInt(largestWin.payout)) {
+                largestWin = {
+                  gameId: log.gameId,
+                  player: log.player as Address,
+                  betAmount: bet.amount.toString(),
+                  payout: log.payout,
+                  timestamp: log.timestamp,
+                };
+              }
+            }
+            break;
+          }
+          case 'HouseFundsDeposited':
+            houseDeposits += BigInt(log.amount);
+            break;
+          case 'HouseFundsWithdrawn':
+            houseWithdrawals += BigInt(log.amount);
+            break;
+          case 'HouseEdgeUpdated':
+            houseEdgeBps = BigInt(log.newEdgeBps);
+            break;
+        }
+      }
+      logCount = state.logs.length;
+
+      for (const gameId of state.cancelledGames.slice(cancelledCount)) {
+        openBets.delete(gameId);
+      }
+      cancelledCount = state.cancelledGames.length;
+    },
+
+    summary(state) {
+      const statistic = chiSquared(heads, tails);
+      return {
+        chainId: state.chainId,
+        address: state.address,
+        lastBlock: state.lastBlock,
+        totalGames,
+        pendingGames: totalGames - revealedGames - cancelledCount,
+        revealedGames,
+        cancelledGames: cancelledCount,
+        playerWins,
+        totalWagered: totalWagered.toString(),
+        totalPaidOut: totalPaidOut.toString(),
+        houseDeposits: houseDeposits.toString(),
+        houseWithdrawals: houseWithdrawals.toString(),
+        heads,
+        tails,
+        chiSquared: statistic,
+        fairnessPValue: heads + tails > 0 ? chiSquaredPValue(statistic) : null,
+        houseFees: houseFees.toString(),
+        housePnl: housePnl.toString(),
+        bankrollPnl: (housePnl - houseFees).toString(),
+        largestWin,
+        averageRevealSeconds: revealedGames > 0 ? revealSeconds / revealedGames : null,
+      };
+    },
+  };
+}
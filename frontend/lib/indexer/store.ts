@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Address } from 'viem';
+import type { IndexerState } from './types';
+
+export interface IndexerStore {
+  load(chainId: number, address: Address): Promise<IndexerState | null>;
+  save(state: IndexerState): Promise<void>;
+}
+
+export function createEmptyState(chainId: number, address: Address, startBlock: number): IndexerState {
+  return {
+    version: 3,
+    chainId,
+    address,
+    startBlock,
+    lastBlock: startBlock - 1,
+    checkpoints: [],
+    logs: [],
+    cancelledGames: [],
+  };
+}
+
+/**
+ * JSON file store, one file per chain and contract.
+ * Writes go to a temp file first and are renamed into place so a crash never leaves half a file.
+ */
+export function createJsonFileStore(dataDir: string): IndexerStore {
+  const getFilePath = (chainId: number, address: Address) =>
+    path.join(dataDir, `${chainId}-${address.toLowerCase()}.json`);
+
+  return {
+    async load(chainId, address) {
+      const filePath = getFilePath(chainId, address);
+      try {
+        const state = JSON.parse(await fs.readFile(filePath, 'utf8')) as IndexerState;
+        // Older versions lack fields added since, so they are reindexed from scratch
+        if (state.version !== 3) {
+          console.warn('[Indexer] Ignoring store with unknown version:', filePath);
+          return null;
+        }
+        return state;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async save(state) {
+      const filePath = getFilePath(state.chainId, state.address);
+      await fs.mkdir(dataDir, { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(state));
+      await fs.rename(tmpPath, filePath);
+    },
+  };
+}
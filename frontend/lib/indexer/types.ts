@@ -0,0 +1,125 @@
+import type { Address, Hash } from 'viem';
+
+// uint256 values are kept as decimal strings so the store and API payloads stay JSON-safe
+
+interface LogPosition {
+  blockNumber: number;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+  timestamp: number;
+}
+
+export interface BetPlacedLog extends LogPosition {
+  event: 'BetPlaced';
+  player: Address;
+  gameId: string;
+  amount: string;
+  choice: number;
+  sequenceNumber: string;
+  // msg.value - amount of the `placeBet` transaction; null when the bet came through another contract
+  entropyFee: string | null;
+}
+
+export interface GameResultLog extends LogPosition {
+  event: 'GameResult';
+  player: Address;
+  gameId: string;
+  choice: number;
+  result: number;
+  won: boolean;
+  payout: string;
+}
+
+export interface HouseFundsDepositedLog extends LogPosition {
+  event: 'HouseFundsDeposited';
+  sender: Address;
+  amount: string;
+}
+
+export interface HouseFundsWithdrawnLog extends LogPosition {
+  event: 'HouseFundsWithdrawn';
+  owner: Address;
+  amount: string;
+}
+
+export interface HouseEdgeUpdatedLog extends LogPosition {
+  event: 'HouseEdgeUpdated';
+  // Basis points
+  previousEdgeBps: string;
+  newEdgeBps: string;
+}
+
+export type IndexedLog = BetPlacedLog | GameResultLog | HouseFundsDepositedLog | HouseFundsWithdrawnLog | HouseEdgeUpdatedLog;
+
+export interface BlockCheckpoint {
+  number: number;
+  hash: Hash;
+}
+
+export interface IndexerState {
+  version: 3;
+  chainId: number;
+  address: Address;
+  startBlock: number;
+  // Last block whose logs are fully stored
+  lastBlock: number;
+  // Recent block hashes, newest last, used to detect reorgs
+  checkpoints: BlockCheckpoint[];
+  logs: IndexedLog[];
+  // Games found Cancelled on chain; cancelGame emits no event so these are reconciled by reading getGame
+  cancelledGames: string[];
+}
+
+export type GameStateName = 'Pending' | 'Revealed' | 'Cancelled';
+
+export interface IndexedGame {
+  gameId: string;
+  player: Address;
+  betAmount: string;
+  entropyFee: string | null;
+  choice: number;
+  sequenceNumber: string;
+  state: GameStateName;
+  result: number | null;
+  won: boolean | null;
+  payout: string;
+  placedAt: number;
+  placedBlock: number;
+  betTxHash: Hash;
+  revealedAt: number | null;
+  revealedBlock: number | null;
+  resultTxHash: Hash | null;
+}
+
+export interface IndexerSummary {
+  chainId: number;
+  address: Address;
+  lastBlock: number;
+  totalGames: number;
+  pendingGames: number;
+  revealedGames: number;
+  cancelledGames: number;
+  playerWins: number;
+  totalWagered: string;
+  totalPaidOut: string;
+  houseDeposits: string;
+  houseWithdrawals: string;
+  // Observed coin sides of revealed games and their chi-squared test against a fair coin
+  heads: number;
+  tails: number;
+  chiSquared: number;
+  fairnessPValue: number | null;
+  // House result of revealed games (signed), split into accrued fees and the remaining bankroll movement
+  houseFees: string;
+  housePnl: string;
+  bankrollPnl: string;
+  largestWin: {
+    gameId: string;
+    player: Address;
+    betAmount: string;
+    payout: string;
+    timestamp: number;
+  } | null;
+  averageRevealSeconds: number | null;
+}
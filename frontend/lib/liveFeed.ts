@@ -0,0 +1,83 @@
+import { parseEther, type Address } from 'viem';
+import type { GameStateName, IndexedGame, IndexedLog } from './indexer/types';
+
+/**
+ * The "Live flips" ticker: one row per game across all players, seeded from the indexed games
+ * and kept current from the event stream. The game with the latest bet or result comes first.
+ */
+
+export interface FeedFlip {
+  gameId: string;
+  player: Address;
+  choice: number;
+  // Null when the result arrived for a game placed before the feed was loaded
+  betAmount: string | null;
+  state: GameStateName;
+  result: number | null;
+  won: boolean | null;
+  payout: string;
+  // Timestamp of the latest bet or result
+  updatedAt: number;
+}
+
+// Games kept in memory; more than are shown so hiding small bets still leaves a full list
+export const FEED_SIZE = 50;
+
+// Bets below this are hidden by the "hide small bets" toggle
+export const SMALL_BET_THRESHOLD = parseEther('0.1');
+
+export function flipFromGame(game: IndexedGame): FeedFlip {
+  return {
+    gameId: game.gameId,
+    player: game.player,
+    choice: game.choice,
+    betAmount: game.betAmount,
+    state: game.state,
+    result: game.result,
+    won: game.won,
+    payout: game.payout,
+    updatedAt: game.revealedAt ?? game.placedAt,
+  };
+}
+
+/**
+ * The feed after one streamed log; logs other than bets and results leave it unchanged
+ */
+export function applyFeedLog(feed: FeedFlip[], log: IndexedLog, size = FEED_SIZE): FeedFlip[] {
+  if (log.event !== 'BetPlaced' && log.event !== 'GameResult') return feed;
+
+  const existing = feed.find((flip) => flip.gameId === log.gameId);
+  const flip: FeedFlip =
+    log.event === 'BetPlaced'
+      ? {
+          gameId: log.gameId,
+          player: log.player,
+          choice: log.choice,
+          betAmount: log.amount,
+          state: 'Pending',
+          result: null,
+          won: null,
+          payout: '0',
+          updatedAt: log.timestamp,
+        }
+      : {
+          gameId: log.gameId,
+          player: log.player,
+          choice: log.choice,
+          betAmount: existing?.betAmount ?? null,
+          state: 'Revealed',
+          result: log.result,
+          won: log.won,
+          payout: log.payout,
+          updatedAt: log.timestamp,
+        };
+
+  // A replayed bet must not undo a result that is already shown
+  if (log.event === 'BetPlaced' && existing && existing.state !== 'Pending') return feed;
+
+  return [flip, ...feed.filter((other) => other.gameId !== log.gameId)].slice(0, size);
+}
+
+export function isSmallBet(flip: FeedFlip, threshold = SMALL_BET_THRESHOLD): boolean {
+  return flip.betAmount !== null && BigInt(flip.betAmount) < threshold;
+}
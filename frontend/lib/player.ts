@@ -0,0 +1,186 @@
+import type { Address } from 'viem';
+import { CoinFlipV2GameState, type CoinFlipV2Game } from '../config/abi/CoinFlipV2';
+import { publicClient } from '../config/client';
+import { COIN_FLIP_ABI, COIN_FLIP_ADDRESS, COIN_FLIP_VERSION } from '../config/contract';
+import { fetchAllPlayerGames } from './api/client';
+import { cacheGames, readGames } from './gameCache';
+import type { IndexedGame } from './indexer/types';
+
+export interface PlayerGame {
+  id: bigint;
+  game: CoinFlipV2Game;
+}
+
+export interface GameIdPage {
+  // Newest first
+  ids: bigint[];
+  // Every game of the player, not just the ones on the page
+  total: number;
+}
+
+export interface Streak {
+  kind: 'win' | 'loss';
+  length: number;
+}
+
+export interface PnlPoint {
+  gameId: bigint;
+  timestamp: number;
+  // Cumulative profit in wei after this game
+  profit: bigint;
+}
+
+export interface PlayerProfile {
+  totalGames: number;
+  wins: number;
+  losses: number;
+  pending: PlayerGame[];
+  cancelled: PlayerGame[];
+  wagered: bigint;
+  profit: bigint;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  currentStreak: Streak | null;
+  // Sides the player picked, over every game including pending and cancelled ones
+  heads: number;
+  tails: number;
+  pnl: PnlPoint[];
+}
+
+function fromIndexedGame(game: IndexedGame): CoinFlipV2Game {
+  return {
+    player: game.player,
+    betAmount: BigInt(game.betAmount),
+    playerChoice: game.choice,
+    result: game.result ?? 0,
+    won: game.won ?? false,
+    payout: BigInt(game.payout),
+    timestamp: BigInt(game.placedAt),
+    state: CoinFlipV2GameState[game.state],
+  };
+}
+
+/**
+ * The ids of a player's `count` most recent games. V2 reads only that page with
+ * `getPlayerGamesPaginated`; V1, and V2 deployments from before it, read the whole list.
+ */
+export async function fetchRecentGameIds(player: Address, count: number): Promise<GameIdPage> {
+  if (COIN_FLIP_VERSION === 'v2') {
+    try {
+      const total = await publicClient.readContract({
+        address: COIN_FLIP_ADDRESS,
+        abi: COIN_FLIP_ABI,
+        functionName: 'getPlayerGameCount',
+        args: [player],
+      });
+      const offset = total > BigInt(count) ? total - BigInt(count) : BigInt(0);
+      const [ids] = await publicClient.readContract({
+        address: COIN_FLIP_ADDRESS,
+        abi: COIN_FLIP_ABI,
+        functionName: 'getPlayerGamesPaginated',
+        args: [player, offset, BigInt(count)],
+      });
+      return { ids: [...ids].reverse(), total: Number(total) };
+    } catch (error) {
+      console.warn('[Player] getPlayerGamesPaginated failed, reading every game id:', error);
+    }
+  }
+
+  const ids = await publicClient.readContract({
+    address: COIN_FLIP_ADDRESS,
+    abi: COIN_FLIP_ABI,
+    functionName: 'getPlayerGames',
+    args: [player],
+  });
+  return { ids: ids.slice(-count).reverse(), total: ids.length };
+}
+
+/**
+ * Load every game of a player, oldest first. The ids come from `getPlayerGames` (unless the
+ * caller already read them); the games come from the indexer, falling back to batched `getGame`
+ * reads for anything it hasn't seen yet.
+ */
+export async function fetchPlayerGames(player: Address, gameIds?: readonly bigint[]): Promise<PlayerGame[]> {
+  const ids =
+    gameIds ??
+    (await publicClient.readContract({
+      address: COIN_FLIP_ADDRESS,
+      abi: COIN_FLIP_ABI,
+      functionName: 'getPlayerGames',
+      args: [player],
+    }));
+  if (ids.length === 0) return [];
+
+  const indexedGames = new Map<string, CoinFlipV2Game>();
+  try {
+    for (const game of await fetchAllPlayerGames(player)) {
+      indexedGames.set(game.gameId, fromIndexedGame(game));
+    }
+  } catch (error) {
+    console.warn('[Player] Indexer unavailable, reading games from chain:', error);
+  }
+
+  const games: PlayerGame[] = [];
+  const unindexed: bigint[] = [];
+  for (const id of ids) {
+    const indexedGame = indexedGames.get(id.toString());
+    if (indexedGame) games.push({ id, game: indexedGame });
+    else unindexed.push(id);
+  }
+  cacheGames(games);
+  if (unindexed.length === 0) return games;
+
+  const chainGames = await readGames(unindexed);
+  return [...games, ...chainGames].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * Aggregate a player's games, which must be ordered oldest first
+ */
+export function buildPlayerProfile(games: PlayerGame[]): PlayerProfile {
+  const profile: PlayerProfile = {
+    totalGames: games.length,
+    wins: 0,
+    losses: 0,
+    pending: [],
+    cancelled: [],
+    wagered: BigInt(0),
+    profit: BigInt(0),
+    longestWinStreak: 0,
+    longestLossStreak: 0,
+    currentStreak: null,
+    heads: 0,
+    tails: 0,
+    pnl: [],
+  };
+
+  for (const entry of games) {
+    const { game } = entry;
+    if (game.playerChoice === 0) profile.heads++;
+    else profile.tails++;
+
+    if (game.state === CoinFlipV2GameState.Pending) {
+      profile.pending.push(entry);
+      continue;
+    }
+    if (game.state === CoinFlipV2GameState.Cancelled) {
+      profile.cancelled.push(entry);
+      continue;
+    }
+
+    const kind = game.won ? 'win' : 'loss';
+    profile.wagered += game.betAmount;
+    profile.profit += game.won ? game.payout - game.betAmount : -game.betAmount;
+    if (game.won) profile.wins++;
+    else profile.losses++;
+
+    profile.currentStreak =
+      profile.currentStreak?.kind === kind ? { kind, length: profile.currentStreak.length + 1 } : { kind, length: 1 };
+    if (kind === 'win') profile.longestWinStreak = Math.max(profile.longestWinStreak, profile.currentStreak.length);
+    else profile.longestLossStreak = Math.max(profile.longestLossStreak, profile.currentStreak.length);
+
+    profile.pnl.push({ gameId: entry.id, timestamp: Number(game.timestamp), profit: profile.profit });
+  }
+
+  return profile;
+}
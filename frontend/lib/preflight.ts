@@ -0,0 +1,100 @@
+import type {
+  Address,
+  Chain,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  EstimateContractGasParameters,
+  PublicClient,
+  SimulateContractParameters,
+} from 'viem';
+import { COIN_FLIP_V1_ABI } from '../config/abi/CoinFlip';
+import { COIN_FLIP_ABI, COIN_FLIP_ADDRESS } from '../config/contract';
+import { decodeError, describeError, type DecodedError } from './errors';
+
+/**
+ * Dry run of a CoinFlip write before the wallet is asked to sign it: `simulateContract` against
+ * the latest block catches reverts caused by state that changed since the page loaded (house
+ * balance, limits, ownership), and the gas estimate prices the transaction.
+ */
+
+type CoinFlipAbi = typeof COIN_FLIP_ABI;
+type WriteMutability = 'nonpayable' | 'payable';
+
+export type CoinFlipWriteName = ContractFunctionName<CoinFlipAbi, WriteMutability>;
+
+type WriteArgs = ContractFunctionArgs<CoinFlipAbi, WriteMutability, CoinFlipWriteName>;
+
+export interface CoinFlipWrite<name extends CoinFlipWriteName = CoinFlipWriteName> {
+  functionName: name;
+  args?: ContractFunctionArgs<CoinFlipAbi, WriteMutability, name>;
+  value?: bigint;
+}
+
+type CoinFlipV1Abi = typeof COIN_FLIP_V1_ABI;
+
+// Writes that only exist on the commit-reveal V1 contract, or whose arguments differ there
+export type CoinFlipV1WriteName = Extract<ContractFunctionName<CoinFlipV1Abi, WriteMutability>, 'placeBet' | 'revealResult'>;
+
+export interface CoinFlipV1Write<name extends CoinFlipV1WriteName = CoinFlipV1WriteName> {
+  version: 'v1';
+  functionName: name;
+  args: ContractFunctionArgs<CoinFlipV1Abi, WriteMutability, name>;
+  value?: bigint;
+}
+
+export type PreflightCall = CoinFlipWrite | CoinFlipV1Write;
+
+// The ABI a write is encoded with
+function writeAbi(call: PreflightCall): CoinFlipAbi | CoinFlipV1Abi {
+  return 'version' in call ? COIN_FLIP_V1_ABI : COIN_FLIP_ABI;
+}
+
+export type PreflightResult =
+  | {
+      ok: true;
+      gas: bigint;
+      gasPrice: bigint;
+      // gas * gasPrice, the most the network fee is expected to be
+      gasCost: bigint;
+      value: bigint;
+      total: bigint;
+    }
+  | { ok: false; error: DecodedError; message: string };
+
+interface PreflightParams {
+  client: PublicClient;
+  account: Address;
+  call: PreflightCall;
+}
+
+export async function preflightWrite({ client, account, call }: PreflightParams): Promise<PreflightResult> {
+  // The union of every write's arguments doesn't narrow per function name, hence the casts
+  const { functionName, args, value } = call;
+  const request = { address: COIN_FLIP_ADDRESS, abi: writeAbi(call), account, functionName, args, value };
+  try {
+    await client.simulateContract(request as SimulateContractParameters<CoinFlipAbi, CoinFlipWriteName, WriteArgs, Chain, Chain, Address>);
+    const [gas, gasPrice] = await Promise.all([
+      client.estimateContractGas(request as EstimateContractGasParameters<CoinFlipAbi, CoinFlipWriteName, WriteArgs>),
+      client.getGasPrice(),
+    ]);
+    const value = call.value ?? BigInt(0);
+    const gasCost = gas * gasPrice;
+    return { ok: true, gas, gasPrice, gasCost, value, total: value + gasCost };
+  } catch (error) {
+    return { ok: false, error: decodeError(error), message: describeError(error) };
+  }
+}
+
+/**
+ * Stable react-query key for a preflight; bigints are not JSON serializable
+ */
+export function preflightKey(account: Address | undefined, call: PreflightCall | null) {
+  return [
+    'preflight',
+    account,
+    call && 'version' in call ? call.version : undefined,
+    call?.functionName,
+    JSON.stringify(call?.args ?? [], (_, value) => (typeof value === 'bigint' ? value.toString() : value)),
+    call?.value?.toString(),
+  ];
+}
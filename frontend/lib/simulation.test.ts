@@ -0,0 +1,124 @@
+import { parseEther } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { createRandom, sampleBetSize, simulate, simulateRun, type Random, type SimulationConfig } from './simulation';
+
+const config = (overrides: Partial<SimulationConfig>): SimulationConfig => ({
+  bankroll: parseEther('1'),
+  minBet: parseEther('0.01'),
+  maxBet: parseEther('0.1'),
+  entropyFee: parseEther('0.001'),
+  houseEdgeBps: BigInt(500),
+  distribution: { kind: 'fixed', amount: parseEther('0.1') },
+  gamesPerRun: 10,
+  runs: 1,
+  concurrency: 1,
+  withdrawFees: false,
+  seed: 1,
+  ...overrides,
+});
+
+// Fixed bet sizes draw no random numbers, so these decide every coin: below 0.5 is a player win
+const alwaysWins: Random = () => 0;
+const alwaysLoses: Random = () => 0.99;
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const sequence = Array.from({ length: 100 }, a);
+    expect(Array.from({ length: 100 }, b)).toEqual(sequence);
+    expect(sequence.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(sequence[0]);
+  });
+});
+
+describe('sampleBetSize', () => {
+  const random = createRandom(7);
+  const min = parseEther('0.01');
+  const max = parseEther('1');
+
+  it('stays within the range of the uniform and log-uniform distributions', () => {
+    for (const kind of ['uniform', 'log-uniform'] as const) {
+      for (let i = 0; i < 200; i++) {
+        const size = sampleBetSize({ kind, min, max }, random);
+        expect(size >= min && size <= max).toBe(true);
+      }
+    }
+  });
+
+  it('picks weighted sizes in proportion to their weight', () => {
+    const choices = [
+      { amount: min, weight: 3 },
+      { amount: max, weight: 1 },
+    ];
+    const samples = Array.from({ length: 4000 }, () => sampleBetSize({ kind: 'weighted', choices }, random));
+    const share = samples.filter((size) => size === min).length / samples.length;
+    expect(share).toBeGreaterThan(0.7);
+    expect(share).toBeLessThan(0.8);
+  });
+});
+
+describe('simulateRun', () => {
+  it('takes the bet and accrues the fee on every loss', () => {
+    const run = simulateRun(config({}), alwaysLoses);
+    expect(run).toMatchObject({ placed: 10, rejected: 0, ruined: false, maxBetBlocked: false, maxDrawdown: BigInt(0) });
+    expect(run.finalBalance).toBe(parseEther('2'));
+    expect(run.feeIncome).toBe(parseEther('0.05'));
+  });
+
+  it('rejects bets once the balance fails the solvency check', () => {
+    // Each win costs the house 0.09; a 0.1 bet needs the balance plus the fee to cover 0.19
+    const run = simulateRun(config({ gamesPerRun: 12 }), alwaysWins);
+    expect(run).toMatchObject({ placed: 10, rejected: 2, maxBetBlocked: true, ruined: false });
+    expect(run.finalBalance).toBe(parseEther('0.1'));
+    expect(run.maxDrawdown).toBe(parseEther('0.9'));
+  });
+
+  it('follows the house edge in the payout and the fee', () => {
+    const run = simulateRun(config({ gamesPerRun: 1, houseEdgeBps: BigInt(1000) }), alwaysWins);
+    expect(run.finalBalance).toBe(parseEther('0.92'));
+    expect(run.feeIncome).toBe(parseEther('0.01'));
+  });
+
+  it('leaves a win the balance cannot pay pending and refunds the bet', () => {
+    // Three bets pass the check before any is revealed; the third win no longer fits
+    const run = simulateRun(config({ bankroll: parseEther('0.2'), gamesPerRun: 3, concurrency: 3 }), alwaysWins);
+    expect(run).toMatchObject({ placed: 3, failedPayouts: 1 });
+    expect(run.finalBalance).toBe(parseEther('0.02'));
+    expect(run.feeIncome).toBe(parseEther('0.01'));
+  });
+
+  it('sweeps the accrued fees after every round', () => {
+    const run = simulateRun(config({ withdrawFees: true }), alwaysLoses);
+    expect(run.withdrawn).toBe(parseEther('0.05'));
+    expect(run.finalBalance).toBe(parseEther('1.95'));
+  });
+
+  it('rejects bets whose winnings do not cover the entropy fee', () => {
+    const run = simulateRun(config({ entropyFee: parseEther('0.1') }), alwaysLoses);
+    expect(run).toMatchObject({ placed: 0, rejected: 10 });
+  });
+});
+
+describe('simulate', () => {
+  const seeded = config({
+    distribution: { kind: 'log-uniform', min: parseEther('0.01'), max: parseEther('0.1') },
+    gamesPerRun: 200,
+    runs: 50,
+    concurrency: 4,
+  });
+
+  it('produces the same report for the same seed', () => {
+    expect(simulate(seeded)).toEqual(simulate(seeded));
+  });
+
+  it('produces a different report for another seed', () => {
+    expect(simulate({ ...seeded, seed: 2 }).finalBalance).not.toEqual(simulate(seeded).finalBalance);
+  });
+
+  it('reports the fee income the edge implies', () => {
+    const report = simulate({ ...seeded, distribution: { kind: 'fixed', amount: parseEther('0.01') } });
+    expect(report.rejectionRate).toBe(0);
+    expect(report.expectedFeeIncome).toBe(parseEther('0.1'));
+  });
+});
@@ -0,0 +1,235 @@
+import { houseFee, winPayout } from './houseEdge';
+
+// Monte Carlo model of CoinFlipV2's house economics, for sizing minBet, maxBet and the bankroll.
+//
+// Each game follows the contract step by step:
+// - placeBet: msg.value = bet + entropy fee. The solvency check runs with the bet and the fee
+//   already in the balance (`balance < bet + payout` reverts, with the payout at the house edge,
+//   1.9x at 5%). The fee is then forwarded to Pyth, so only the bet stays.
+// - entropyCallback: every game accrues the edge of the bet to `houseFees`. A win pays the
+//   payout; when the balance can't cover it the callback reverts, and the game stays pending
+//   until the player cancels it for a refund of the bet.
+//
+// `houseFees` accrues exactly the house's expected edge, so the balance net of accrued fees has
+// no drift: sweeping the fees leaves a zero-edge bankroll behind.
+
+const ZERO = BigInt(0);
+
+export type BetSizeDistribution =
+  | { kind: 'fixed'; amount: bigint }
+  | { kind: 'uniform'; min: bigint; max: bigint }
+  | { kind: 'log-uniform'; min: bigint; max: bigint }
+  | { kind: 'weighted'; choices: { amount: bigint; weight: number }[] };
+
+export interface SimulationConfig {
+  // Contract balance at the start of every run
+  bankroll: bigint;
+  minBet: bigint;
+  maxBet: bigint;
+  entropyFee: bigint;
+  // In basis points, within the bounds `setHouseEdge` accepts
+  houseEdgeBps: bigint;
+  // Sampled sizes are clamped to minBet/maxBet
+  distribution: BetSizeDistribution;
+  gamesPerRun: number;
+  runs: number;
+  // Bets placed before any of them is revealed; the solvency check doesn't reserve for pending games
+  concurrency: number;
+  // Owner sweeps `houseFees` after every round of bets, as far as the balance allows
+  withdrawFees: boolean;
+  seed: number;
+}
+
+export interface RunResult {
+  finalBalance: bigint;
+  // Accrued to houseFees during the run, withdrawn or not
+  feeIncome: bigint;
+  withdrawn: bigint;
+  // Largest drop of the contract balance from a previous high
+  maxDrawdown: bigint;
+  placed: number;
+  rejected: number;
+  failedPayouts: number;
+  // The balance could no longer accept a minBet (ruin) or a maxBet bet
+  ruined: boolean;
+  maxBetBlocked: boolean;
+}
+
+export interface Percentiles {
+  p5: bigint;
+  p50: bigint;
+  p95: bigint;
+}
+
+export interface SimulationReport {
+  runs: number;
+  gamesPerRun: number;
+  ruinProbability: number;
+  maxBetBlockedProbability: number;
+  // Share of attempted bets rejected with InsufficientHouseBalance or BetTooLowForEntropyFee
+  rejectionRate: number;
+  // Share of placed bets whose win the contract couldn't pay
+  failedPayoutRate: number;
+  expectedFeeIncome: bigint;
+  // Mean of final balance plus withdrawn fees, minus the starting bankroll
+  expectedHouseProfit: bigint;
+  finalBalance: Percentiles;
+  maxDrawdown: Percentiles & { mean: bigint; worst: bigint };
+}
+
+export type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32), so a configuration always produces the same report
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fractions are applied in millionths, which is plenty for bet sizes
+const SCALE = 1e6;
+
+function lerp(min: bigint, max: bigint, fraction: number) {
+  return min + ((max - min) * BigInt(Math.floor(fraction * SCALE))) / BigInt(SCALE);
+}
+
+export function sampleBetSize(distribution: BetSizeDistribution, random: Random): bigint {
+  switch (distribution.kind) {
+    case 'fixed':
+      return distribution.amount;
+    case 'uniform':
+      return lerp(distribution.min, distribution.max, random());
+    case 'log-uniform': {
+      // Sampled in gwei so the logarithms stay within float precision
+      const min = Math.log(Number(distribution.min / BigInt(1e9)) || 1);
+      const max = Math.log(Number(distribution.max / BigInt(1e9)) || 1);
+      return BigInt(Math.round(Math.exp(min + random() * (max - min)))) * BigInt(1e9);
+    }
+    case 'weighted': {
+      const total = distribution.choices.reduce((sum, choice) => sum + choice.weight, 0);
+      let target = random() * total;
+      for (const choice of distribution.choices) {
+        target -= choice.weight;
+        if (target < 0) return choice.amount;
+      }
+      return distribution.choices[distribution.choices.length - 1]?.amount ?? ZERO;
+    }
+  }
+}
+
+// Whether placeBet's solvency check passes for this bet at the current balance
+function canCover(balance: bigint, bet: bigint, config: SimulationConfig) {
+  return balance + bet + config.entropyFee >= bet + winPayout(bet, config.houseEdgeBps);
+}
+
+export function simulateRun(config: SimulationConfig, random: Random): RunResult {
+  let balance = config.bankroll;
+  let houseFees = ZERO;
+  let peak = balance;
+  const result: RunResult = {
+    finalBalance: balance,
+    feeIncome: ZERO,
+    withdrawn: ZERO,
+    maxDrawdown: ZERO,
+    placed: 0,
+    rejected: 0,
+    failedPayouts: 0,
+    ruined: false,
+    maxBetBlocked: false,
+  };
+  const concurrency = Math.max(1, Math.floor(config.concurrency));
+
+  for (let played = 0; played < config.gamesPerRun; played += concurrency) {
+    const pending: bigint[] = [];
+    for (let i = 0; i < concurrency && played + i < config.gamesPerRun; i++) {
+      let bet = sampleBetSize(config.distribution, random);
+      if (bet < config.minBet) bet = config.minBet;
+      if (bet > config.maxBet) bet = config.maxBet;
+
+      if (winPayout(bet, config.houseEdgeBps) - bet <= config.entropyFee || !canCover(balance, bet, config)) {
+        result.rejected++;
+        continue;
+      }
+      balance += bet;
+      pending.push(bet);
+      result.placed++;
+    }
+
+    for (const bet of pending) {
+      const won = random() < 0.5;
+      const payout = winPayout(bet, config.houseEdgeBps);
+      if (won && balance < payout) {
+        // The callback reverts, fee accrual included; the player later cancels for a refund
+        result.failedPayouts++;
+        if (balance >= bet) balance -= bet;
+        continue;
+      }
+      const fee = houseFee(bet, config.houseEdgeBps);
+      houseFees += fee;
+      result.feeIncome += fee;
+      if (won) balance -= payout;
+    }
+
+    if (config.withdrawFees && houseFees > ZERO) {
+      const amount = houseFees <= balance ? houseFees : balance;
+      balance -= amount;
+      houseFees -= amount;
+      result.withdrawn += amount;
+    }
+
+    if (balance > peak) peak = balance;
+    if (peak - balance > result.maxDrawdown) result.maxDrawdown = peak - balance;
+    if (!canCover(balance, config.maxBet, config)) result.maxBetBlocked = true;
+    if (!canCover(balance, config.minBet, config)) result.ruined = true;
+  }
+
+  result.finalBalance = balance;
+  return result;
+}
+
+function percentiles(values: bigint[]): Percentiles {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] ?? ZERO;
+  return { p5: at(0.05), p50: at(0.5), p95: at(0.95) };
+}
+
+function mean(values: bigint[]) {
+  return values.length === 0 ? ZERO : values.reduce((sum, value) => sum + value, ZERO) / BigInt(values.length);
+}
+
+export function summarizeRuns(config: SimulationConfig, runs: RunResult[]): SimulationReport {
+  const count = runs.length || 1;
+  const attempted = runs.reduce((sum, run) => sum + run.placed + run.rejected, 0);
+  const placed = runs.reduce((sum, run) => sum + run.placed, 0);
+  const drawdowns = runs.map((run) => run.maxDrawdown);
+
+  return {
+    runs: runs.length,
+    gamesPerRun: config.gamesPerRun,
+    ruinProbability: runs.filter((run) => run.ruined).length / count,
+    maxBetBlockedProbability: runs.filter((run) => run.maxBetBlocked).length / count,
+    rejectionRate: attempted === 0 ? 0 : runs.reduce((sum, run) => sum + run.rejected, 0) / attempted,
+    failedPayoutRate: placed === 0 ? 0 : runs.reduce((sum, run) => sum + run.failedPayouts, 0) / placed,
+    expectedFeeIncome: mean(runs.map((run) => run.feeIncome)),
+    expectedHouseProfit: mean(runs.map((run) => run.finalBalance + run.withdrawn - config.bankroll)),
+    finalBalance: percentiles(runs.map((run) => run.finalBalance)),
+    maxDrawdown: {
+      ...percentiles(drawdowns),
+      mean: mean(drawdowns),
+      worst: drawdowns.reduce((worst, value) => (value > worst ? value : worst), ZERO),
+    },
+  };
+}
+
+export function simulate(config: SimulationConfig): SimulationReport {
+  const random = createRandom(config.seed);
+  const runs = Array.from({ length: config.runs }, () => simulateRun(config, random));
+  return summarizeRuns(config, runs);
+}
@@ -0,0 +1,127 @@
+import { parseEther } from 'viem';
+import { describe, expect, it } from 'vitest';
+import type { CoinSide } from './betLifecycle';
+import { betPayout } from './betValidation';
+import {
+  clampStake,
+  nextDecision,
+  recordRound,
+  runStrategy,
+  startSession,
+  validateStrategy,
+  type StrategyConfig,
+  type StrategyLimits,
+} from './strategy';
+
+const LIMITS: StrategyLimits = {
+  minBet: parseEther('0.01'),
+  maxBet: parseEther('1'),
+  entropyFee: parseEther('0.001'),
+  houseEdgeBps: BigInt(500),
+};
+
+const HEADS: CoinSide = 0;
+const TAILS: CoinSide = 1;
+
+const config = (overrides: Partial<StrategyConfig>): StrategyConfig => ({
+  kind: 'fixed',
+  side: HEADS,
+  baseStake: parseEther('0.01'),
+  multiplierPercent: 200,
+  ...overrides,
+});
+
+// The stakes a run placed, read back from the decisions it made
+function stakes(strategy: StrategyConfig, results: CoinSide[]) {
+  let session = startSession(strategy);
+  return results.map((result) => {
+    const decision = nextDecision(session, strategy, LIMITS);
+    if (decision.action !== 'bet') throw new Error(`Stopped: ${decision.reason}`);
+    const won = result === decision.bet.choice;
+    session = recordRound(session, strategy, LIMITS, decision.bet, won ? 'won' : 'lost', won ? betPayout(decision.bet.amount) : BigInt(0));
+    return decision.bet;
+  });
+}
+
+describe('stake sizing', () => {
+  it('martingale doubles after each loss and resets after a win', () => {
+    const bets = stakes(config({ kind: 'martingale' }), [TAILS, TAILS, TAILS, HEADS, TAILS]);
+    expect(bets.map((bet) => bet.amount)).toEqual(['0.01', '0.02', '0.04', '0.08', '0.01'].map((value) => parseEther(value)));
+  });
+
+  it('anti-martingale grows the stake after a win and resets after a loss', () => {
+    const bets = stakes(config({ kind: 'anti-martingale', multiplierPercent: 150 }), [HEADS, HEADS, TAILS, HEADS]);
+    expect(bets.map((bet) => bet.amount)).toEqual(['0.01', '0.015', '0.0225', '0.01'].map((value) => parseEther(value)));
+  });
+
+  it('alternate switches sides every round and keeps the stake', () => {
+    const bets = stakes(config({ kind: 'alternate', side: TAILS }), [HEADS, HEADS, TAILS]);
+    expect(bets.map((bet) => bet.choice)).toEqual([TAILS, HEADS, TAILS]);
+    expect(new Set(bets.map((bet) => bet.amount))).toEqual(new Set([parseEther('0.01')]));
+  });
+
+  it('clamps the stake to the max stake and the bet limits', () => {
+    const bets = stakes(config({ kind: 'martingale', maxStake: parseEther('0.03') }), [TAILS, TAILS, TAILS, TAILS]);
+    expect(bets.map((bet) => bet.amount)).toEqual(['0.01', '0.02', '0.03', '0.03'].map((value) => parseEther(value)));
+
+    expect(clampStake(parseEther('5'), config({ maxStake: parseEther('2') }), LIMITS)).toBe(LIMITS.maxBet);
+    expect(clampStake(parseEther('0.001'), config({}), LIMITS)).toBe(LIMITS.minBet);
+  });
+
+  it('repeats the stake after a refund and only charges the entropy fee', () => {
+    const strategy = config({ kind: 'martingale' });
+    const bet = { choice: HEADS, amount: parseEther('0.04') };
+    const session = recordRound({ ...startSession(strategy), nextStake: bet.amount }, strategy, LIMITS, bet, 'refunded', bet.amount);
+    expect(session).toMatchObject({ rounds: 1, wins: 0, losses: 0, nextStake: bet.amount, profit: -LIMITS.entropyFee });
+  });
+});
+
+describe('runStrategy', () => {
+  it('pays wins at the house edge and charges the entropy fee every round', () => {
+    const { session, stopReason } = runStrategy(config({ kind: 'martingale' }), LIMITS, [TAILS, TAILS, TAILS, HEADS]);
+    expect(stopReason).toBeNull();
+    expect(session).toMatchObject({ rounds: 4, wins: 1, losses: 3, wagered: parseEther('0.15'), nextStake: parseEther('0.01') });
+    // -0.07 lost, +0.072 won on the 0.08 stake, 4 entropy fees
+    expect(session.profit).toBe(parseEther('-0.002'));
+  });
+
+  it('follows a different house edge', () => {
+    const { session } = runStrategy(config({ baseStake: parseEther('1') }), { ...LIMITS, houseEdgeBps: BigInt(100) }, [HEADS]);
+    expect(session.profit).toBe(parseEther('0.98') - LIMITS.entropyFee);
+  });
+
+  it('stops at the stop-loss', () => {
+    const run = runStrategy(config({ baseStake: parseEther('0.1'), stopLoss: parseEther('0.25') }), LIMITS, Array(10).fill(TAILS));
+    expect(run.stopReason).toBe('stop-loss');
+    expect(run.session.rounds).toBe(3);
+  });
+
+  it('stops at the take-profit', () => {
+    const run = runStrategy(config({ baseStake: parseEther('0.1'), takeProfit: parseEther('0.2') }), LIMITS, Array(10).fill(HEADS));
+    expect(run.stopReason).toBe('take-profit');
+    expect(run.session).toMatchObject({ rounds: 3, profit: parseEther('0.267') });
+  });
+
+  it('stops after the max rounds', () => {
+    const run = runStrategy(config({ kind: 'alternate', maxRounds: 5 }), LIMITS, Array(10).fill(HEADS));
+    expect(run.stopReason).toBe('max-rounds');
+    expect(run.session).toMatchObject({ rounds: 5, wins: 3, losses: 2 });
+  });
+});
+
+describe('validateStrategy', () => {
+  it('accepts a stake within the limits', () => {
+    expect(validateStrategy(config({ kind: 'martingale' }), LIMITS)).toBeNull();
+  });
+
+  it('rejects configurations the contract or the engine cannot play', () => {
+    expect(validateStrategy(config({ baseStake: parseEther('2') }), LIMITS)).toMatch(/bet limits/);
+    expect(validateStrategy(config({ maxStake: parseEther('0.001') }), LIMITS)).toMatch(/Max stake/);
+    expect(validateStrategy(config({ kind: 'martingale', multiplierPercent: 50 }), LIMITS)).toMatch(/Multiplier/);
+    expect(validateStrategy(config({ maxRounds: 0 }), LIMITS)).toMatch(/Max rounds/);
+    // 0.05 * 90% of winnings doesn't cover a 0.05 fee
+    expect(validateStrategy(config({ baseStake: parseEther('0.05') }), { ...LIMITS, entropyFee: parseEther('0.05') })).toMatch(
+      /entropy fee/
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import type { BetRequest, CoinSide } from './betLifecycle';
+import { betPayout, minBetForEntropyFee, type BetLimits } from './betValidation';
+
+// Auto-bet strategies. Everything here is pure: a session is advanced one settled round at a
+// time, so the same engine drives live auto-play and runs against simulated outcome streams.
+
+export type StrategyKind = 'fixed' | 'martingale' | 'anti-martingale' | 'alternate';
+
+export const STRATEGIES: { kind: StrategyKind; label: string; description: string }[] = [
+  { kind: 'fixed', label: 'Fixed stake', description: 'Same stake and side every round' },
+  { kind: 'martingale', label: 'Martingale', description: 'Multiply the stake after a loss, reset after a win' },
+  { kind: 'anti-martingale', label: 'Anti-martingale', description: 'Multiply the stake after a win, reset after a loss' },
+  { kind: 'alternate', label: 'Alternate sides', description: 'Same stake, switching between heads and tails' },
+];
+
+export type StrategyLimits = Pick<BetLimits, 'minBet' | 'maxBet' | 'entropyFee' | 'houseEdgeBps'>;
+
+export interface StrategyConfig {
+  kind: StrategyKind;
+  // Side of the first round; only `alternate` changes it
+  side: CoinSide;
+  baseStake: bigint;
+  // Applied to the stake after a loss (martingale) or win (anti-martingale); 200 doubles it
+  multiplierPercent: number;
+  maxStake?: bigint;
+  // Net loss, entropy fees included, at which the session stops
+  stopLoss?: bigint;
+  takeProfit?: bigint;
+  maxRounds?: number;
+}
+
+export type StopReason = 'stop-loss' | 'take-profit' | 'max-rounds' | 'stopped' | 'failed';
+
+export type RoundResult = 'won' | 'lost' | 'refunded';
+
+export interface StrategySession {
+  rounds: number;
+  wins: number;
+  losses: number;
+  wagered: bigint;
+  // Net result including entropy fees
+  profit: bigint;
+  // Stake before clamping to the bet limits
+  nextStake: bigint;
+  nextSide: CoinSide;
+}
+
+export type StrategyDecision = { action: 'bet'; bet: BetRequest } | { action: 'stop'; reason: StopReason };
+
+export function validateStrategy(config: StrategyConfig, limits: StrategyLimits): string | null {
+  if (config.baseStake < limits.minBet || config.baseStake > limits.maxBet) return 'Base stake must be within the bet limits';
+  if (config.maxStake !== undefined && config.maxStake < limits.minBet) return 'Max stake is below the minimum bet';
+  if (config.baseStake < minBetForEntropyFee(limits.entropyFee, limits.houseEdgeBps)) return 'Base stake does not cover the entropy fee';
+  if ((config.kind === 'martingale' || config.kind === 'anti-martingale') && !(config.multiplierPercent >= 100)) {
+    return 'Multiplier must be at least 1x';
+  }
+  if (config.maxRounds !== undefined && !(config.maxRounds > 0)) return 'Max rounds must be positive';
+  return null;
+}
+
+export function startSession(config: StrategyConfig): StrategySession {
+  return {
+    rounds: 0,
+    wins: 0,
+    losses: 0,
+    wagered: BigInt(0),
+    profit: BigInt(0),
+    nextStake: config.baseStake,
+    nextSide: config.side,
+  };
+}
+
+export function clampStake(stake: bigint, config: StrategyConfig, limits: StrategyLimits): bigint {
+  const cap = config.maxStake !== undefined && config.maxStake < limits.maxBet ? config.maxStake : limits.maxBet;
+  if (stake > cap) return cap;
+  if (stake < limits.minBet) return limits.minBet;
+  return stake;
+}
+
+export function nextDecision(session: StrategySession, config: StrategyConfig, limits: StrategyLimits): StrategyDecision {
+  if (config.maxRounds !== undefined && session.rounds >= config.maxRounds) return { action: 'stop', reason: 'max-rounds' };
+  if (config.takeProfit !== undefined && session.profit >= config.takeProfit) return { action: 'stop', reason: 'take-profit' };
+  if (config.stopLoss !== undefined && session.profit <= -config.stopLoss) return { action: 'stop', reason: 'stop-loss' };
+  return { action: 'bet', bet: { choice: session.nextSide, amount: clampStake(session.nextStake, config, limits) } };
+}
+
+function multiply(stake: bigint, config: StrategyConfig) {
+  return (stake * BigInt(Math.round(config.multiplierPercent))) / BigInt(100);
+}
+
+/**
+ * Fold a settled round into the session. `payout` is what the contract paid: the win payout,
+ * the refunded bet for a cancelled game, or zero.
+ */
+export function recordRound(
+  session: StrategySession,
+  config: StrategyConfig,
+  limits: StrategyLimits,
+  bet: BetRequest,
+  result: RoundResult,
+  payout: bigint
+): StrategySession {
+  const next: StrategySession = {
+    ...session,
+    rounds: session.rounds + 1,
+    wagered: session.wagered + bet.amount,
+    profit: session.profit + payout - bet.amount - limits.entropyFee,
+  };
+  if (result === 'won') next.wins++;
+  if (result === 'lost') next.losses++;
+
+  // A refund repeats the round with the same stake
+  if (result !== 'refunded') {
+    if (config.kind === 'martingale') next.nextStake = result === 'lost' ? multiply(bet.amount, config) : config.baseStake;
+    if (config.kind === 'anti-martingale') next.nextStake = result === 'won' ? multiply(bet.amount, config) : config.baseStake;
+  }
+  if (config.kind === 'alternate') next.nextSide = bet.choice === 0 ? 1 : 0;
+  return next;
+}
+
+export interface StrategyRun {
+  session: StrategySession;
+  // Null when the outcome stream ran out first
+  stopReason: StopReason | null;
+}
+
+/**
+ * Play a strategy against a stream of coin results, paying wins the way `entropyCallback`
+ * does at the limits' house edge
+ */
+export function runStrategy(config: StrategyConfig, limits: StrategyLimits, results: Iterable<CoinSide>): StrategyRun {
+  let session = startSession(config);
+  const iterator = results[Symbol.iterator]();
+
+  for (;;) {
+    const decision = nextDecision(session, config, limits);
+    if (decision.action === 'stop') return { session, stopReason: decision.reason };
+
+    const next = iterator.next();
+    if (next.done) return { session, stopReason: null };
+
+    const won = next.value === decision.bet.choice;
+    const payout = won ? betPayout(decision.bet.amount, limits.houseEdgeBps) : BigInt(0);
+    session = recordRound(session, config, limits, decision.bet, won ? 'won' : 'lost', payout);
+  }
+}
@@ -0,0 +1,447 @@
+import {
+  decodeFunctionData,
+  isAddressEqual,
+  parseAbi,
+  parseEventLogs,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  zeroAddress,
+} from 'viem';
+import { COIN_FLIP_V1_ABI } from '../config/abi/CoinFlip';
+import { COIN_FLIP_V2_ABI, CoinFlipV2GameState, type CoinFlipV2Game } from '../config/abi/CoinFlipV2';
+import type { ContractVersion } from '../config/deployments';
+import { userCommitment } from './commitReveal';
+import { DEFAULT_HOUSE_EDGE_BPS, formatMultiplier, winPayout } from './houseEdge';
+
+// The parts of the Pyth Entropy V2 interface needed to follow a request; MockEntropyV2 emits the same events
+export const ENTROPY_V2_ABI = parseAbi([
+  'struct Request { address provider; uint64 sequenceNumber; uint32 numHashes; bytes32 commitment; uint64 blockNumber; address requester; bool useBlockhash; uint8 callbackStatus; uint16 gasLimit10k; }',
+  'event Requested(address indexed provider, address indexed caller, uint64 indexed sequenceNumber, bytes32 userContribution, uint32 gasLimit, bytes extraArgs)',
+  'event Revealed(address indexed provider, address indexed caller, uint64 indexed sequenceNumber, bytes32 randomNumber, bytes32 userContribution, bytes32 providerContribution, bool callbackFailed, bytes callbackReturnValue, uint32 callbackGasUsed, bytes extraArgs)',
+  'function getRequestV2(address provider, uint64 sequenceNumber) view returns (Request)',
+]);
+
+// The Pyth Entropy V1 call that `CoinFlip.revealResult` makes to combine both revelations
+export const ENTROPY_V1_ABI = parseAbi([
+  'function reveal(address provider, uint64 sequenceNumber, bytes32 userRevelation, bytes32 providerRevelation) returns (bytes32 randomNumber)',
+]);
+
+export type CheckStatus = 'pass' | 'fail' | 'skipped';
+
+export interface VerificationCheck {
+  label: string;
+  status: CheckStatus;
+  expected: string;
+  actual: string;
+}
+
+/** `incomplete` means there is nothing to verify yet: the game is pending or was refunded */
+export type Verdict = 'pass' | 'fail' | 'incomplete';
+
+export interface EntropyRequestInfo {
+  entropy: Address;
+  provider: Address;
+  sequenceNumber: bigint;
+  txHash: Hash;
+  blockNumber: bigint;
+  /** Still stored by the entropy contract, i.e. not fulfilled yet */
+  open: boolean;
+}
+
+export interface EntropyRevealInfo {
+  randomNumber: Hex;
+  callbackFailed: boolean;
+  // V1 only: the provider's revelation passed to `revealResult`
+  providerRevelation?: Hex;
+  txHash: Hash;
+  blockNumber: bigint;
+}
+
+export interface ExpectedOutcome {
+  result: number;
+  won: boolean;
+  payout: bigint;
+  // The edge the game was placed with
+  houseEdgeBps: bigint;
+}
+
+export interface GameVerification {
+  gameId: bigint;
+  contract: Address;
+  game: CoinFlipV2Game;
+  betTxHash: Hash | null;
+  request: EntropyRequestInfo | null;
+  reveal: EntropyRevealInfo | null;
+  expected: ExpectedOutcome | null;
+  checks: VerificationCheck[];
+  verdict: Verdict;
+}
+
+export interface VerifyGameOptions {
+  client: PublicClient;
+  address: Address;
+  gameId: bigint;
+  /** `v1` follows the commit-reveal flow instead of the entropy callback; `v2` by default */
+  version?: ContractVersion;
+  /** First block to search for logs when no transaction hashes are known */
+  fromBlock?: bigint;
+  /** Transaction hashes from the indexer, which saves scanning for logs */
+  betTxHash?: Hash | null;
+  resultTxHash?: Hash | null;
+}
+
+/**
+ * Recompute a game the same way `CoinFlipV2.entropyCallback` does
+ */
+export function computeOutcome(
+  choice: number,
+  betAmount: bigint,
+  randomNumber: Hex,
+  houseEdgeBps = DEFAULT_HOUSE_EDGE_BPS
+): ExpectedOutcome {
+  const result = Number(BigInt(randomNumber) % BigInt(2));
+  const won = choice === result;
+  const payout = won ? winPayout(betAmount, houseEdgeBps) : BigInt(0);
+  return { result, won, payout, houseEdgeBps };
+}
+
+function check(label: string, expected: unknown, actual: unknown): VerificationCheck {
+  const expectedText = String(expected);
+  const actualText = String(actual);
+  return {
+    label,
+    status: expectedText.toLowerCase() === actualText.toLowerCase() ? 'pass' : 'fail',
+    expected: expectedText,
+    actual: actualText,
+  };
+}
+
+function skipped(label: string, reason: string): VerificationCheck {
+  return { label, status: 'skipped', expected: reason, actual: '-' };
+}
+
+async function findBetPlaced(options: VerifyGameOptions) {
+  const { client, address, gameId } = options;
+
+  if (options.betTxHash) {
+    const receipt = await client.getTransactionReceipt({ hash: options.betTxHash });
+    return {
+      receipt,
+      log: parseEventLogs({ abi: COIN_FLIP_V2_ABI, logs: receipt.logs, eventName: 'BetPlaced' }).find(
+        (log) => log.address.toLowerCase() === address.toLowerCase() && log.args.gameId === gameId
+      ),
+    };
+  }
+
+  const [log] = await client.getContractEvents({
+    address,
+    abi: COIN_FLIP_V2_ABI,
+    eventName: 'BetPlaced',
+    args: { gameId },
+    fromBlock: options.fromBlock ?? BigInt(0),
+    strict: true,
+  });
+  if (!log) return { receipt: null, log: undefined };
+
+  return { receipt: await client.getTransactionReceipt({ hash: log.transactionHash }), log };
+}
+
+async function findResultTxHash(options: VerifyGameOptions, fromBlock: bigint): Promise<Hash | null> {
+  if (options.resultTxHash) return options.resultTxHash;
+
+  const [log] = await options.client.getContractEvents({
+    address: options.address,
+    abi: COIN_FLIP_V2_ABI,
+    eventName: 'GameResult',
+    args: { gameId: options.gameId },
+    fromBlock,
+    strict: true,
+  });
+  return log?.transactionHash ?? null;
+}
+
+function findGameResult(receipt: TransactionReceipt, address: Address, gameId: bigint) {
+  return parseEventLogs({ abi: COIN_FLIP_V2_ABI, logs: receipt.logs, eventName: 'GameResult' }).find(
+    (log) => log.address.toLowerCase() === address.toLowerCase() && log.args.gameId === gameId
+  );
+}
+
+/**
+ * Recompute the outcome from the random number and compare it with the stored game and its
+ * `GameResult` log, then settle the verdict
+ */
+function checkOutcome(
+  verification: GameVerification,
+  randomNumber: Hex,
+  houseEdgeBps: bigint,
+  gameResult: ReturnType<typeof findGameResult>
+): GameVerification {
+  const { game, checks } = verification;
+  const expected = computeOutcome(game.playerChoice, game.betAmount, randomNumber, houseEdgeBps);
+  verification.expected = expected;
+  checks.push(check('Game revealed', CoinFlipV2GameState.Revealed, game.state));
+  checks.push(check('Result = randomNumber % 2', expected.result, game.result));
+  checks.push(check('Won = (choice == result)', expected.won, game.won));
+  checks.push(check(`Payout = ${formatMultiplier(houseEdgeBps)} bet if won`, expected.payout, game.payout));
+
+  if (gameResult) {
+    checks.push(check('GameResult event result', expected.result, gameResult.args.result));
+    checks.push(check('GameResult event payout', expected.payout, gameResult.args.payout));
+  } else {
+    checks.push(check('GameResult log found', 'yes', 'no'));
+  }
+
+  verification.verdict = checks.some((item) => item.status === 'fail') ? 'fail' : 'pass';
+  return verification;
+}
+
+// V1's `BetPlaced` doesn't index the game id, so without a transaction hash the player's bets are searched
+async function findV1BetPlaced(options: VerifyGameOptions, player: Address) {
+  const { client, address, gameId } = options;
+  const isGameBet = (log: { address: Address; args: { gameId: bigint } }) =>
+    isAddressEqual(log.address, address) && log.args.gameId === gameId;
+
+  if (options.betTxHash) {
+    const receipt = await client.getTransactionReceipt({ hash: options.betTxHash });
+    return parseEventLogs({ abi: COIN_FLIP_V1_ABI, logs: receipt.logs, eventName: 'BetPlaced' }).find(isGameBet);
+  }
+
+  const logs = await client.getContractEvents({
+    address,
+    abi: COIN_FLIP_V1_ABI,
+    eventName: 'BetPlaced',
+    args: { player },
+    fromBlock: options.fromBlock ?? BigInt(0),
+    strict: true,
+  });
+  return logs.find(isGameBet);
+}
+
+// The provider revelation of a direct `revealResult(gameId, providerRevelation)` call
+function decodeRevealCall(input: Hex, gameId: bigint): Hex | null {
+  try {
+    const call = decodeFunctionData({ abi: COIN_FLIP_V1_ABI, data: input });
+    return call.functionName === 'revealResult' && call.args[0] === gameId ? call.args[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The V1 commit-reveal counterpart of the entropy callback checks: the player's secret must match
+ * the commitment in `BetPlaced`, and the random number is recomputed by replaying the
+ * `entropy.reveal` call that `revealResult` made, against the state from just before it
+ */
+async function verifyCommitReveal(options: VerifyGameOptions, verification: GameVerification): Promise<GameVerification> {
+  const { client, address, gameId } = options;
+  const { game, checks } = verification;
+
+  const [v1Game, entropy, provider] = await Promise.all([
+    client.readContract({ address, abi: COIN_FLIP_V1_ABI, functionName: 'getGame', args: [gameId] }),
+    client.readContract({ address, abi: COIN_FLIP_V1_ABI, functionName: 'entropy' }),
+    client.readContract({ address, abi: COIN_FLIP_V1_ABI, functionName: 'entropyProvider' }),
+  ]);
+  const sequenceNumber = v1Game.entropySequenceNumber;
+
+  // 1. The bet and the player's commitment to their secret
+  const bet = await findV1BetPlaced(options, game.player);
+  if (!bet) {
+    checks.push(check('BetPlaced log found', 'yes', 'no'));
+    verification.verdict = 'fail';
+    return verification;
+  }
+
+  verification.betTxHash = bet.transactionHash;
+  checks.push(check('BetPlaced player matches game', game.player, bet.args.player));
+  checks.push(check('BetPlaced amount matches game', game.betAmount, bet.args.amount));
+  checks.push(check('BetPlaced choice matches game', game.playerChoice, bet.args.choice));
+  checks.push(check('BetPlaced sequence number matches game', sequenceNumber, bet.args.sequenceNumber));
+  checks.push(check('Commitment = keccak256(user randomness)', bet.args.userCommitment, userCommitment(v1Game.userRandomness)));
+  verification.request = {
+    entropy,
+    provider,
+    sequenceNumber,
+    txHash: bet.transactionHash,
+    blockNumber: bet.blockNumber,
+    open: game.state === CoinFlipV2GameState.Pending,
+  };
+
+  if (game.state === CoinFlipV2GameState.Cancelled) {
+    checks.push(skipped('Random number revealed', 'Game was cancelled and refunded'));
+    verification.verdict = checks.some((item) => item.status === 'fail') ? 'fail' : 'incomplete';
+    return verification;
+  }
+
+  // 2. The player's `revealResult` call, which carries the provider's revelation
+  const resultTxHash = await findResultTxHash(options, bet.blockNumber);
+  if (!resultTxHash) {
+    checks.push(
+      game.state === CoinFlipV2GameState.Pending
+        ? skipped('Random number revealed', 'Waiting for the player to reveal')
+        : check('GameResult log found', 'yes', 'no')
+    );
+    verification.verdict = checks.some((item) => item.status === 'fail') ? 'fail' : 'incomplete';
+    return verification;
+  }
+
+  const [resultTx, resultReceipt] = await Promise.all([
+    client.getTransaction({ hash: resultTxHash }),
+    client.getTransactionReceipt({ hash: resultTxHash }),
+  ]);
+  const providerRevelation =
+    resultTx.to && isAddressEqual(resultTx.to, address) ? decodeRevealCall(resultTx.input, gameId) : null;
+  if (!providerRevelation) {
+    checks.push(skipped('Random number revealed', 'Revealed through another contract, whose call cannot be decoded'));
+    verification.verdict = checks.some((item) => item.status === 'fail') ? 'fail' : 'incomplete';
+    return verification;
+  }
+
+  // 3. Replay the reveal as the contract made it, which returns the combined random number
+  let randomNumber: Hex;
+  try {
+    const { result } = await client.simulateContract({
+      address: entropy,
+      abi: ENTROPY_V1_ABI,
+      functionName: 'reveal',
+      args: [provider, sequenceNumber, v1Game.userRandomness, providerRevelation],
+      account: address,
+      blockNumber: resultReceipt.blockNumber - BigInt(1),
+    });
+    randomNumber = result;
+  } catch (error) {
+    console.warn('[Verify] Could not replay the entropy reveal:', error);
+    checks.push(skipped('Random number revealed', 'The node no longer serves the state from before the reveal'));
+    verification.verdict = checks.some((item) => item.status === 'fail') ? 'fail' : 'incomplete';
+    return verification;
+  }
+
+  verification.reveal = {
+    randomNumber,
+    callbackFailed: false,
+    providerRevelation,
+    txHash: resultTxHash,
+    blockNumber: resultReceipt.blockNumber,
+  };
+
+  // 4. V1 always pays 1.9x, the default edge
+  return checkOutcome(verification, randomNumber, DEFAULT_HOUSE_EDGE_BPS, findGameResult(resultReceipt, address, gameId));
+}
+
+/**
+ * Follow a game from its `BetPlaced` log through the entropy request and reveal,
+ * and compare the stored result and payout with a local recomputation. V1 games follow the
+ * commit-reveal flow instead. Resolves to null when the game does not exist
+ */
+export async function verifyGame(options: VerifyGameOptions): Promise<GameVerification | null> {
+  const { client, address, gameId } = options;
+
+  const game = await client.readContract({
+    address,
+    abi: COIN_FLIP_V2_ABI,
+    functionName: 'getGame',
+    args: [gameId],
+  });
+  if (game.player === zeroAddress) return null;
+
+  const verification: GameVerification = {
+    gameId,
+    contract: address,
+    game,
+    betTxHash: null,
+    request: null,
+    reveal: null,
+    expected: null,
+    checks: [],
+    verdict: 'incomplete',
+  };
+  if (options.version === 'v1') return verifyCommitReveal(options, verification);
+  const { checks } = verification;
+
+  // 1. The bet and the sequence number it was assigned
+  const bet = await findBetPlaced(options);
+  if (!bet.log || !bet.receipt) {
+    checks.push(check('BetPlaced log found', 'yes', 'no'));
+    verification.verdict = 'fail';
+    return verification;
+  }
+
+  const { sequenceNumber } = bet.log.args;
+  verification.betTxHash = bet.log.transactionHash;
+  checks.push(check('BetPlaced player matches game', game.player, bet.log.args.player));
+  checks.push(check('BetPlaced amount matches game', game.betAmount, bet.log.args.amount));
+  checks.push(check('BetPlaced choice matches game', game.playerChoice, bet.log.args.choice));
+
+  // 2. The entropy request made in the same transaction
+  const requested = parseEventLogs({ abi: ENTROPY_V2_ABI, logs: bet.receipt.logs, eventName: 'Requested' }).find(
+    (log) => log.args.caller.toLowerCase() === address.toLowerCase() && log.args.sequenceNumber === sequenceNumber
+  );
+  checks.push(check('Entropy request for the sequence number', sequenceNumber, requested?.args.sequenceNumber ?? 'none'));
+
+  if (requested) {
+    const stored = await client.readContract({
+      address: requested.address,
+      abi: ENTROPY_V2_ABI,
+      functionName: 'getRequestV2',
+      args: [requested.args.provider, sequenceNumber],
+    });
+    verification.request = {
+      entropy: requested.address,
+      provider: requested.args.provider,
+      sequenceNumber,
+      txHash: requested.transactionHash,
+      blockNumber: requested.blockNumber,
+      open: stored.sequenceNumber === sequenceNumber,
+    };
+  }
+
+  if (game.state === CoinFlipV2GameState.Cancelled) {
+    checks.push(skipped('Random number revealed', 'Game was cancelled and refunded'));
+    verification.verdict = checks.some((item) => item.status === 'fail') ? 'fail' : 'incomplete';
+    return verification;
+  }
+
+  // 3. The reveal, which is delivered in the same transaction as GameResult
+  const resultTxHash = await findResultTxHash(options, bet.log.blockNumber);
+  if (!resultTxHash) {
+    checks.push(
+      game.state === CoinFlipV2GameState.Pending
+        ? skipped('Random number revealed', 'Waiting for Pyth Entropy')
+        : check('GameResult log found', 'yes', 'no')
+    );
+    verification.verdict = checks.some((item) => item.status === 'fail') ? 'fail' : 'incomplete';
+    return verification;
+  }
+
+  const resultReceipt = await client.getTransactionReceipt({ hash: resultTxHash });
+  const revealed = parseEventLogs({ abi: ENTROPY_V2_ABI, logs: resultReceipt.logs, eventName: 'Revealed' }).find(
+    (log) => log.args.caller.toLowerCase() === address.toLowerCase() && log.args.sequenceNumber === sequenceNumber
+  );
+  const gameResult = findGameResult(resultReceipt, address, gameId);
+
+  if (!revealed) {
+    checks.push(check('Revealed log for the sequence number', sequenceNumber, 'none'));
+    verification.verdict = 'fail';
+    return verification;
+  }
+
+  verification.reveal = {
+    randomNumber: revealed.args.randomNumber,
+    callbackFailed: revealed.args.callbackFailed,
+    txHash: revealed.transactionHash,
+    blockNumber: revealed.blockNumber,
+  };
+  if (verification.request) {
+    checks.push(check('Revealed by the requested entropy contract', verification.request.entropy, revealed.address));
+  }
+  checks.push(check('Entropy callback failed', false, revealed.args.callbackFailed));
+
+  // 4. Recompute the outcome from the revealed random number, at the edge the bet was placed with.
+  // Deployments from before the edge was configurable don't have the getter and always used the default.
+  const houseEdgeBps = await client
+    .readContract({ address, abi: COIN_FLIP_V2_ABI, functionName: 'getGameHouseEdge', args: [gameId] })
+    .catch(() => DEFAULT_HOUSE_EDGE_BPS);
+  return checkOutcome(verification, revealed.args.randomNumber, houseEdgeBps, gameResult);
+}
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+/**
+ * Generate typed ABIs, struct types and error unions for the frontend from the Foundry build output.
+ *
+ *   node scripts/generate-contracts.mjs          write config/abi/*.ts
+ *   node scripts/generate-contracts.mjs --check  exit 1 if the checked-in files differ from out/
+ *
+ * Run `forge build` in the repository root first.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const frontendDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.resolve(frontendDir, process.env.FOUNDRY_OUT_DIR ?? '../out');
+const targetDir = path.join(frontendDir, 'config', 'abi');
+
+const CONTRACTS = [
+  { name: 'CoinFlip', source: 'src/CoinFlip.sol', prefix: 'CoinFlipV1', constant: 'COIN_FLIP_V1' },
+  { name: 'CoinFlipV2', source: 'src/CoinFlipV2.sol', prefix: 'CoinFlipV2', constant: 'COIN_FLIP_V2' },
+];
+
+const HEADER = `// This file is generated by scripts/generate-contracts.mjs from the Foundry build output.
+// Do not edit it by hand: run \`forge build\` and \`npm run codegen\` instead.
+`;
+
+// Print a JSON value as a TypeScript literal in the repo's style
+function toLiteral(value, indent = '') {
+  const next = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map((item) => `${next}${toLiteral(item, next)},`).join('\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    return `{\n${entries.map(([key, item]) => `${next}${key}: ${toLiteral(item, next)},`).join('\n')}\n${indent}}`;
+  }
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  return String(value);
+}
+
+// Matches what viem infers for the same ABI type, so generated structs are assignable from read results
+function toTsType(param, structs) {
+  const array = param.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    const inner = toTsType({ ...param, type: array[1], internalType: param.internalType?.replace(/\[\d*\]$/, '') }, structs);
+    return `readonly ${inner.includes(' ') ? `(${inner})` : inner}[]`;
+  }
+  if (param.type === 'tuple') return structs.get(param.internalType).typeName;
+  if (param.type === 'address' || param.type.startsWith('bytes')) return '`0x${string}`';
+  if (param.type === 'bool') return 'boolean';
+  if (param.type === 'string') return 'string';
+  const int = param.type.match(/^u?int(\d*)$/);
+  if (int) return Number(int[1] || 256) <= 48 ? 'number' : 'bigint';
+  throw new Error(`Unsupported ABI type ${param.type}`);
+}
+
+// Collect every struct used by the ABI, keyed by its internalType ("struct CoinFlipV2.Game")
+function collectStructs(abi, prefix) {
+  const structs = new Map();
+  const visit = (param) => {
+    if (param.type.startsWith('tuple') && param.internalType?.startsWith('struct ')) {
+      const internalType = param.internalType.replace(/(\[\d*\])+$/, '');
+      const structName = internalType.slice('struct '.length).split('.').pop();
+      if (!structs.has(internalType)) {
+        structs.set(internalType, { typeName: `${prefix}${structName}`, components: param.components });
+      }
+      param.components.forEach(visit);
+    }
+  };
+  for (const item of abi) {
+    [...(item.inputs ?? []), ...(item.outputs ?? [])].forEach(visit);
+  }
+  return structs;
+}
+
+// Enum members are not part of the ABI, so read them from the source embedded in the metadata
+function collectEnums(artifact, source) {
+  const content = artifact.metadata?.sources?.[source]?.content;
+  if (!content) return [];
+  return [...content.matchAll(/enum\s+(\w+)\s*\{([^}]*)\}/g)].map(([, name, body]) => ({
+    name,
+    members: body
+      .replace(/\/\/.*$/gm, '')
+      .split(',')
+      .map((member) => member.trim())
+      .filter(Boolean),
+  }));
+}
+
+function generate({ name, source, prefix, constant }) {
+  const artifactPath = path.join(outDir, `${path.basename(source)}`, `${name}.json`);
+  if (!existsSync(artifactPath)) {
+    throw new Error(`Missing ${path.relative(process.cwd(), artifactPath)}; run \`forge build\` first`);
+  }
+
+  const artifact = JSON.parse(readFileSync(artifactPath, 'utf8'));
+  const abi = artifact.abi;
+  const structs = collectStructs(abi, prefix);
+  const enums = collectEnums(artifact, source);
+  const errors = abi.filter((item) => item.type === 'error').map((item) => item.name);
+  const events = abi.filter((item) => item.type === 'event').map((item) => item.name);
+
+  let output = `${HEADER}\nexport const ${constant}_ABI = ${toLiteral(abi)} as const;\n`;
+
+  for (const { name: enumName, members } of enums) {
+    const typeName = `${prefix}${enumName}`;
+    output += `\nexport const ${typeName} = {\n${members.map((member, i) => `  ${member}: ${i},`).join('\n')}\n} as const;\n`;
+    output += `export type ${typeName} = (typeof ${typeName})[keyof typeof ${typeName}];\n`;
+  }
+
+  for (const { typeName, components } of structs.values()) {
+    const fields = components.map((component) => `  ${component.name}: ${toTsType(component, structs)};`);
+    output += `\nexport interface ${typeName} {\n${fields.join('\n')}\n}\n`;
+  }
+
+  output += `\nexport const ${constant}_ERRORS = ${errors.length ? `[${errors.map((error) => `'${error}'`).join(', ')}]` : '[]'} as const;\n`;
+  output += `export type ${prefix}ErrorName = (typeof ${constant}_ERRORS)[number];\n`;
+  output += `\nexport const ${constant}_EVENTS = [${events.map((event) => `'${event}'`).join(', ')}] as const;\n`;
+  output += `export type ${prefix}EventName = (typeof ${constant}_EVENTS)[number];\n`;
+
+  return { file: path.join(targetDir, `${name}.ts`), output };
+}
+
+const check = process.argv.includes('--check');
+
+try {
+  const results = CONTRACTS.map(generate);
+
+  if (check) {
+    const stale = results.filter(({ file, output }) => !existsSync(file) || readFileSync(file, 'utf8') !== output);
+    if (stale.length > 0) {
+      console.error('Generated contract types are out of date with the Solidity sources:');
+      stale.forEach(({ file }) => console.error(`  ${path.relative(frontendDir, file)}`));
+      console.error('Run `forge build` and `npm run codegen` in frontend/, then commit the result.');
+      process.exit(1);
+    }
+    console.log('Generated contract types are up to date.');
+  } else {
+    mkdirSync(targetDir, { recursive: true });
+    results.forEach(({ file, output }) => {
+      writeFileSync(file, output);
+      console.log(`Wrote ${path.relative(frontendDir, file)}`);
+    });
+  }
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
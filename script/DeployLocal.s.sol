@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.30;
+
+import "forge-std/Script.sol";
+import "../src/CoinFlipV2.sol";
+import "../test/mocks/MockEntropyV2.sol";
+
+contract DeployLocal is Script {
+    function run() external {
+        // Configuration
+        uint256 minBet = 0.01 ether; // Minimum bet: 0.01 MON
+        uint256 maxBet = 1 ether;    // Maximum bet: 1 MON
+        uint256 initialHouseFunds = 10 ether; // Initial house funds: 10 MON
+
+        // Defaults to the first anvil account
+        uint256 deployerPrivateKey = vm.envOr(
+            "PRIVATE_KEY",
+            uint256(0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80)
+        );
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        // Deploy mock entropy; results are delivered by calling reveal(sequenceNumber, randomNumber)
+        MockEntropyV2 entropy = new MockEntropyV2();
+
+        CoinFlipV2 coinFlip = new CoinFlipV2(
+            address(entropy),
+            entropy.getDefaultProvider(),
+            minBet,
+            maxBet
+        );
+        coinFlip.depositHouseFunds{value: initialHouseFunds}();
+
+        console.log("MockEntropyV2 deployed at:", address(entropy));
+        console.log("CoinFlipV2 deployed at:", address(coinFlip));
+        console.log("Owner:", coinFlip.owner());
+        console.log("Initial House Balance:", address(coinFlip).balance);
+        console.log("Entropy Fee:", coinFlip.getEntropyFee());
+
+        vm.stopBroadcast();
+    }
+}
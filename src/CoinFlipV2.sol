@@ -8,7 +8,8 @@ import "@pythnetwork/entropy-sdk-solidity/EntropyStructsV2.sol";
 /**
  * @title CoinFlipV2
  * @dev A provably fair coin flip betting game using Pyth Entropy V2 with automatic callbacks
- * @notice Users bet MON, choose heads (0) or tails (1), and win 1.9x if correct (5% house fee)
+ * @notice Users bet MON, choose heads (0) or tails (1), and win 2x minus twice the house edge if correct
+ *         (1.9x at the default 5% edge). The owner can set the edge within fixed bounds.
  */
 contract CoinFlipV2 is IEntropyConsumer {
     // Custom errors
@@ -47,6 +48,7 @@ contract CoinFlipV2 is IEntropyConsumer {
     event HouseFundsDeposited(address indexed sender, uint256 amount);
     event HouseFundsWithdrawn(address indexed owner, uint256 amount);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event HouseEdgeUpdated(uint256 previousEdgeBps, uint256 newEdgeBps);
 
     // Pyth Entropy V2
     IEntropyV2 private immutable entropy;
@@ -58,7 +60,12 @@ contract CoinFlipV2 is IEntropyConsumer {
     uint256 public maxBet;
     uint256 public houseFees;
     uint256 public gameIdCounter;
-    uint256 public constant HOUSE_FEE_PERCENT = 5; // 5% house fee
+    uint256 public houseEdgeBps; // House edge in basis points, accrued to houseFees on every game
+
+    uint256 public constant DEFAULT_HOUSE_EDGE_BPS = 500; // 5%, a 1.9x payout
+    uint256 public constant MIN_HOUSE_EDGE_BPS = 100; // 1%, a 1.98x payout
+    uint256 public constant MAX_HOUSE_EDGE_BPS = 1000; // 10%, a 1.8x payout
+    uint256 private constant BPS = 10000;
 
     // Game states
     enum GameState {
@@ -79,9 +86,21 @@ contract CoinFlipV2 is IEntropyConsumer {
         GameState state;
     }
 
+    // Running totals, per player and across all players
+    // Bets count from `placeBet` (cancelled ones included), wins and payouts from the callback
+    struct Stats {
+        uint256 gamesPlayed;
+        uint256 gamesWon;
+        uint256 totalWagered;
+        uint256 totalPaidOut;
+    }
+
     mapping(uint256 => Game) public games;
     mapping(address => uint256[]) public playerGames;
     mapping(uint64 => uint256) public sequenceToGameId; // Map entropy sequence to game ID
+    mapping(address => Stats) private playerStats;
+    Stats private globalStats;
+    mapping(uint256 => uint256) private gameHouseEdgeBps; // Edge when the bet was placed
 
     constructor(
         address _entropyAddress,
@@ -99,6 +118,9 @@ contract CoinFlipV2 is IEntropyConsumer {
         minBet = _minBet;
         maxBet = _maxBet;
         gameIdCounter = 0;
+        houseEdgeBps = DEFAULT_HOUSE_EDGE_BPS;
+
+        emit HouseEdgeUpdated(0, DEFAULT_HOUSE_EDGE_BPS);
     }
 
     /**
@@ -118,11 +140,11 @@ contract CoinFlipV2 is IEntropyConsumer {
         if (betAmount > maxBet) revert BetTooHigh();
 
         // Ensure potential winnings cover entropy fee
-        uint256 netWinnings = (betAmount * 90) / 100; // Win amount (excluding original bet)
+        uint256 edgeBps = houseEdgeBps;
+        uint256 potentialPayout = _payout(betAmount, edgeBps);
+        uint256 netWinnings = potentialPayout - betAmount; // Win amount (excluding original bet)
         if (netWinnings <= entropyFee) revert BetTooLowForEntropyFee();
 
-        uint256 potentialPayout = (betAmount * 190) / 100; // 1.9x payout
-
         // Ensure contract has enough balance to pay out
         if (address(this).balance < betAmount + potentialPayout) {
             revert InsufficientHouseBalance();
@@ -149,6 +171,10 @@ contract CoinFlipV2 is IEntropyConsumer {
 
         playerGames[msg.sender].push(gameId);
         sequenceToGameId[sequenceNumber] = gameId;
+        gameHouseEdgeBps[gameId] = edgeBps;
+
+        _recordBet(playerStats[msg.sender], betAmount);
+        _recordBet(globalStats, betAmount);
 
         emit BetPlaced(msg.sender, gameId, betAmount, _choice, sequenceNumber);
 
@@ -175,25 +201,48 @@ contract CoinFlipV2 is IEntropyConsumer {
         bool won = (game.playerChoice == result);
         game.won = won;
 
+        // Settle on the terms the bet was placed with, even if the edge changed since
+        uint256 edgeBps = gameHouseEdgeBps[gameId];
+
         if (won) {
-            // Calculate payout: original bet + winnings (90% of bet)
-            uint256 payout = game.betAmount + ((game.betAmount * 90) / 100);
-            uint256 fee = (game.betAmount * HOUSE_FEE_PERCENT) / 100;
+            // Calculate payout: original bet + winnings
+            uint256 payout = _payout(game.betAmount, edgeBps);
+            uint256 fee = (game.betAmount * edgeBps) / BPS;
             houseFees += fee;
             game.payout = payout;
 
+            _recordWin(playerStats[game.player], payout);
+            _recordWin(globalStats, payout);
+
             // Transfer payout to winner
             (bool success, ) = payable(game.player).call{value: payout}("");
             if (!success) revert PayoutFailed();
         } else {
             // Player loses, bet stays in contract as house balance
-            uint256 fee = (game.betAmount * HOUSE_FEE_PERCENT) / 100;
+            uint256 fee = (game.betAmount * edgeBps) / BPS;
             houseFees += fee;
         }
 
         emit GameResult(game.player, gameId, game.playerChoice, result, won, game.payout);
     }
 
+    /**
+     * @dev Winning payout, stake included: 2x the bet minus twice the edge
+     */
+    function _payout(uint256 betAmount, uint256 edgeBps) private pure returns (uint256) {
+        return (betAmount * 2 * (BPS - edgeBps)) / BPS;
+    }
+
+    function _recordBet(Stats storage stats, uint256 betAmount) private {
+        stats.gamesPlayed++;
+        stats.totalWagered += betAmount;
+    }
+
+    function _recordWin(Stats storage stats, uint256 payout) private {
+        stats.gamesWon++;
+        stats.totalPaidOut += payout;
+    }
+
     /**
      * @dev This method is required by IEntropyConsumer interface
      * @dev Returns the address of the entropy contract
@@ -279,6 +328,21 @@ contract CoinFlipV2 is IEntropyConsumer {
         maxBet = _maxBet;
     }
 
+    /**
+     * @dev Update the house edge (only owner); open games keep the edge they were placed with
+     * @param _houseEdgeBps New edge in basis points, between MIN_HOUSE_EDGE_BPS and MAX_HOUSE_EDGE_BPS
+     */
+    function setHouseEdge(uint256 _houseEdgeBps) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        require(
+            _houseEdgeBps >= MIN_HOUSE_EDGE_BPS && _houseEdgeBps <= MAX_HOUSE_EDGE_BPS,
+            "House edge out of range"
+        );
+        uint256 previousEdgeBps = houseEdgeBps;
+        houseEdgeBps = _houseEdgeBps;
+        emit HouseEdgeUpdated(previousEdgeBps, _houseEdgeBps);
+    }
+
     /**
      * @dev Update entropy provider (only owner)
      */
@@ -306,6 +370,36 @@ contract CoinFlipV2 is IEntropyConsumer {
         return playerGames[_player];
     }
 
+    /**
+     * @dev Get the number of games a player has placed
+     */
+    function getPlayerGameCount(address _player) external view returns (uint256) {
+        return playerGames[_player].length;
+    }
+
+    /**
+     * @dev Get a page of a player's game IDs, oldest first
+     * @param _offset Index of the first game ID to return
+     * @param _limit Maximum number of game IDs to return
+     * @return gameIds The page, empty once `_offset` is past the end
+     * @return total The player's total number of games
+     */
+    function getPlayerGamesPaginated(
+        address _player,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory gameIds, uint256 total) {
+        uint256[] storage ids = playerGames[_player];
+        total = ids.length;
+        if (_offset >= total) return (new uint256[](0), total);
+
+        uint256 count = total - _offset < _limit ? total - _offset : _limit;
+        gameIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            gameIds[i] = ids[_offset + i];
+        }
+    }
+
     /**
      * @dev Get game details by ID
      */
@@ -313,6 +407,30 @@ contract CoinFlipV2 is IEntropyConsumer {
         return games[_gameId];
     }
 
+    /**
+     * @dev Get the details of several games in one call, in the order of `_gameIds`
+     */
+    function getGamesBatch(uint256[] calldata _gameIds) external view returns (Game[] memory batch) {
+        batch = new Game[](_gameIds.length);
+        for (uint256 i = 0; i < _gameIds.length; i++) {
+            batch[i] = games[_gameIds[i]];
+        }
+    }
+
+    /**
+     * @dev Get a player's running totals
+     */
+    function getPlayerStats(address _player) external view returns (Stats memory) {
+        return playerStats[_player];
+    }
+
+    /**
+     * @dev Get the running totals across all players
+     */
+    function getGlobalStats() external view returns (Stats memory) {
+        return globalStats;
+    }
+
     /**
      * @dev Get game ID by entropy sequence number
      */
@@ -334,6 +452,20 @@ contract CoinFlipV2 is IEntropyConsumer {
         return address(this).balance > houseFees ? address(this).balance - houseFees : 0;
     }
 
+    /**
+     * @dev Get the winning payout per unit bet, in basis points (19000 = 1.9x)
+     */
+    function getPayoutMultiplierBps() external view returns (uint256) {
+        return 2 * (BPS - houseEdgeBps);
+    }
+
+    /**
+     * @dev Get the house edge a game was placed with, in basis points
+     */
+    function getGameHouseEdge(uint256 _gameId) external view returns (uint256) {
+        return gameHouseEdgeBps[_gameId];
+    }
+
     /**
      * @dev Get entropy fee for a bet
      */
@@ -0,0 +1,221 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.30;
+
+import "forge-std/Test.sol";
+import "../src/CoinFlipV2.sol";
+import "./mocks/MockEntropyV2.sol";
+
+contract CoinFlipV2Test is Test {
+    CoinFlipV2 public coinFlip;
+    MockEntropyV2 public mockEntropy;
+    address public player1;
+    address public player2;
+
+    uint256 constant MIN_BET = 0.01 ether;
+    uint256 constant MAX_BET = 10 ether;
+    uint256 constant INITIAL_HOUSE_FUNDS = 100 ether;
+
+    // `uint256(randomNumber) % 2` is the result, so these deliver Heads and Tails
+    bytes32 constant HEADS = bytes32(uint256(2));
+    bytes32 constant TAILS = bytes32(uint256(1));
+
+    event HouseEdgeUpdated(uint256 previousEdgeBps, uint256 newEdgeBps);
+
+    function setUp() public {
+        player1 = makeAddr("player1");
+        player2 = makeAddr("player2");
+
+        mockEntropy = new MockEntropyV2();
+        coinFlip = new CoinFlipV2{value: INITIAL_HOUSE_FUNDS}(
+            address(mockEntropy),
+            address(mockEntropy),
+            MIN_BET,
+            MAX_BET
+        );
+
+        vm.deal(player1, 100 ether);
+        vm.deal(player2, 100 ether);
+    }
+
+    // Place a bet of `betAmount` plus the entropy fee and return its game and sequence number
+    function placeBet(address player, uint8 choice, uint256 betAmount) internal returns (uint256 gameId, uint64 sequenceNumber) {
+        uint256 fee = mockEntropy.getFeeV2();
+        vm.recordLogs();
+        vm.prank(player);
+        gameId = coinFlip.placeBet{value: betAmount + fee}(choice);
+
+        Vm.Log[] memory logs = vm.getRecordedLogs();
+        for (uint256 i = 0; i < logs.length; i++) {
+            if (logs[i].emitter == address(coinFlip)) {
+                (, , sequenceNumber) = abi.decode(logs[i].data, (uint256, uint8, uint64));
+            }
+        }
+    }
+
+    function testPlayerGamesPaginated() public {
+        for (uint256 i = 0; i < 5; i++) {
+            placeBet(player1, 0, 1 ether);
+            placeBet(player2, 1, 1 ether);
+        }
+
+        (uint256[] memory page, uint256 total) = coinFlip.getPlayerGamesPaginated(player1, 1, 2);
+        assertEq(total, 5);
+        assertEq(page.length, 2);
+        assertEq(page[0], 2);
+        assertEq(page[1], 4);
+
+        // The last page is cut short
+        (page, total) = coinFlip.getPlayerGamesPaginated(player2, 3, 10);
+        assertEq(page.length, 2);
+        assertEq(page[0], 7);
+        assertEq(page[1], 9);
+
+        assertEq(coinFlip.getPlayerGameCount(player1), 5);
+    }
+
+    function testPlayerGamesPaginatedPastEnd() public {
+        placeBet(player1, 0, 1 ether);
+
+        (uint256[] memory page, uint256 total) = coinFlip.getPlayerGamesPaginated(player1, 1, 10);
+        assertEq(page.length, 0);
+        assertEq(total, 1);
+
+        (page, total) = coinFlip.getPlayerGamesPaginated(player2, 0, 10);
+        assertEq(page.length, 0);
+        assertEq(total, 0);
+    }
+
+    function testGamesBatch() public {
+        placeBet(player1, 0, 1 ether);
+        (, uint64 sequenceNumber) = placeBet(player2, 1, 2 ether);
+        mockEntropy.reveal(sequenceNumber, TAILS);
+
+        uint256[] memory ids = new uint256[](3);
+        ids[0] = 1;
+        ids[1] = 0;
+        ids[2] = 42;
+        CoinFlipV2.Game[] memory batch = coinFlip.getGamesBatch(ids);
+
+        assertEq(batch.length, 3);
+        assertEq(batch[0].player, player2);
+        assertEq(uint256(batch[0].state), uint256(CoinFlipV2.GameState.Revealed));
+        assertTrue(batch[0].won);
+        assertEq(batch[1].player, player1);
+        assertEq(uint256(batch[1].state), uint256(CoinFlipV2.GameState.Pending));
+        // Unknown IDs come back empty rather than reverting
+        assertEq(batch[2].player, address(0));
+    }
+
+    function testStats() public {
+        (, uint64 win) = placeBet(player1, 0, 1 ether);
+        (, uint64 loss) = placeBet(player1, 0, 2 ether);
+        placeBet(player2, 1, 3 ether);
+
+        mockEntropy.reveal(win, HEADS);
+        mockEntropy.reveal(loss, TAILS);
+
+        CoinFlipV2.Stats memory stats = coinFlip.getPlayerStats(player1);
+        assertEq(stats.gamesPlayed, 2);
+        assertEq(stats.gamesWon, 1);
+        assertEq(stats.totalWagered, 3 ether);
+        assertEq(stats.totalPaidOut, 1.9 ether);
+
+        stats = coinFlip.getPlayerStats(player2);
+        assertEq(stats.gamesPlayed, 1);
+        assertEq(stats.gamesWon, 0);
+        assertEq(stats.totalWagered, 3 ether);
+        assertEq(stats.totalPaidOut, 0);
+
+        stats = coinFlip.getGlobalStats();
+        assertEq(stats.gamesPlayed, 3);
+        assertEq(stats.gamesWon, 1);
+        assertEq(stats.totalWagered, 6 ether);
+        assertEq(stats.totalPaidOut, 1.9 ether);
+    }
+
+    function testCancelledGameKeepsStats() public {
+        (uint256 gameId, ) = placeBet(player1, 0, 1 ether);
+
+        vm.warp(block.timestamp + 1 hours + 1);
+        vm.prank(player1);
+        coinFlip.cancelGame(gameId);
+
+        CoinFlipV2.Stats memory stats = coinFlip.getPlayerStats(player1);
+        assertEq(stats.gamesPlayed, 1);
+        assertEq(stats.totalWagered, 1 ether);
+        assertEq(stats.totalPaidOut, 0);
+    }
+
+    function testDefaultHouseEdge() public view {
+        assertEq(coinFlip.houseEdgeBps(), 500);
+        assertEq(coinFlip.getPayoutMultiplierBps(), 19000);
+    }
+
+    function testSetHouseEdgeBounds() public {
+        vm.expectEmit(false, false, false, true);
+        emit HouseEdgeUpdated(500, 100);
+        coinFlip.setHouseEdge(100);
+        assertEq(coinFlip.houseEdgeBps(), 100);
+        assertEq(coinFlip.getPayoutMultiplierBps(), 19800);
+
+        coinFlip.setHouseEdge(1000);
+        assertEq(coinFlip.houseEdgeBps(), 1000);
+        assertEq(coinFlip.getPayoutMultiplierBps(), 18000);
+
+        vm.expectRevert("House edge out of range");
+        coinFlip.setHouseEdge(99);
+
+        vm.expectRevert("House edge out of range");
+        coinFlip.setHouseEdge(1001);
+
+        assertEq(coinFlip.houseEdgeBps(), 1000);
+    }
+
+    function testRevertSetHouseEdgeNonOwner() public {
+        vm.prank(player1);
+        vm.expectRevert(CoinFlipV2.OnlyOwner.selector);
+        coinFlip.setHouseEdge(100);
+    }
+
+    function testPayoutAtMinHouseEdge() public {
+        coinFlip.setHouseEdge(100);
+        (uint256 gameId, uint64 sequenceNumber) = placeBet(player1, 0, 1 ether);
+        mockEntropy.reveal(sequenceNumber, HEADS);
+
+        assertEq(coinFlip.getGame(gameId).payout, 1.98 ether);
+        assertEq(coinFlip.houseFees(), 0.01 ether);
+    }
+
+    function testPayoutAtMaxHouseEdge() public {
+        coinFlip.setHouseEdge(1000);
+        (uint256 gameId, uint64 sequenceNumber) = placeBet(player1, 0, 1 ether);
+        mockEntropy.reveal(sequenceNumber, HEADS);
+
+        assertEq(coinFlip.getGame(gameId).payout, 1.8 ether);
+        assertEq(coinFlip.houseFees(), 0.1 ether);
+    }
+
+    function testOpenGameKeepsHouseEdge() public {
+        (uint256 gameId, uint64 sequenceNumber) = placeBet(player1, 0, 1 ether);
+        coinFlip.setHouseEdge(1000);
+        mockEntropy.reveal(sequenceNumber, HEADS);
+
+        assertEq(coinFlip.getGameHouseEdge(gameId), 500);
+        assertEq(coinFlip.getGame(gameId).payout, 1.9 ether);
+        assertEq(coinFlip.houseFees(), 0.05 ether);
+    }
+
+    function testEntropyFeeCheckFollowsHouseEdge() public {
+        coinFlip.setMinBet(0.001 ether);
+        mockEntropy.setFee(0.009 ether);
+
+        // Winnings of 0.01 ether * 98% cover the fee at the min edge, 80% don't at the max edge
+        coinFlip.setHouseEdge(100);
+        placeBet(player1, 0, 0.01 ether);
+
+        coinFlip.setHouseEdge(1000);
+        vm.expectRevert(CoinFlipV2.BetTooLowForEntropyFee.selector);
+        vm.prank(player1);
+        coinFlip.placeBet{value: 0.019 ether}(0);
+    }
+}
@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.30;
+
+import "@pythnetwork/entropy-sdk-solidity/IEntropyConsumer.sol";
+import "@pythnetwork/entropy-sdk-solidity/EntropyStructsV2.sol";
+
+/**
+ * @title MockEntropyV2
+ * @dev Minimal stand-in for Pyth Entropy V2 used by tests and local anvil deployments
+ * @notice Requests are stored and only fulfilled when `reveal` is called, so the caller decides the random number
+ */
+contract MockEntropyV2 {
+    event Requested(
+        address indexed provider,
+        address indexed caller,
+        uint64 indexed sequenceNumber,
+        bytes32 userContribution,
+        uint32 gasLimit,
+        bytes extraArgs
+    );
+
+    event Revealed(
+        address indexed provider,
+        address indexed caller,
+        uint64 indexed sequenceNumber,
+        bytes32 randomNumber,
+        bytes32 userContribution,
+        bytes32 providerContribution,
+        bool callbackFailed,
+        bytes callbackReturnValue,
+        uint32 callbackGasUsed,
+        bytes extraArgs
+    );
+
+    uint128 public fee = 0.001 ether;
+    uint64 private sequenceCounter = 1;
+
+    mapping(uint64 => EntropyStructsV2.Request) private requests;
+
+    function requestV2() external payable returns (uint64 sequenceNumber) {
+        require(msg.value >= fee, "Insufficient fee");
+        sequenceNumber = sequenceCounter++;
+
+        requests[sequenceNumber] = EntropyStructsV2.Request({
+            provider: address(this),
+            sequenceNumber: sequenceNumber,
+            numHashes: 0,
+            commitment: bytes32(0),
+            blockNumber: uint64(block.number),
+            requester: msg.sender,
+            useBlockhash: false,
+            callbackStatus: 0,
+            gasLimit10k: 0
+        });
+
+        emit Requested(address(this), msg.sender, sequenceNumber, bytes32(0), 0, "");
+    }
+
+    /**
+     * @dev Fulfil a pending request and run the requester's callback
+     * @param sequenceNumber The sequence number returned by `requestV2`
+     * @param randomNumber The random number delivered to the consumer
+     */
+    function reveal(uint64 sequenceNumber, bytes32 randomNumber) external {
+        EntropyStructsV2.Request memory req = requests[sequenceNumber];
+        require(req.requester != address(0), "Unknown request");
+        delete requests[sequenceNumber];
+
+        IEntropyConsumer(req.requester)._entropyCallback(sequenceNumber, address(this), randomNumber);
+
+        emit Revealed(address(this), req.requester, sequenceNumber, randomNumber, bytes32(0), bytes32(0), false, "", 0, "");
+    }
+
+    function getRequestV2(address, uint64 sequenceNumber) external view returns (EntropyStructsV2.Request memory) {
+        return requests[sequenceNumber];
+    }
+
+    function getFeeV2() external view returns (uint128) {
+        return fee;
+    }
+
+    function setFee(uint128 _fee) external {
+        fee = _fee;
+    }
+
+    function getDefaultProvider() external view returns (address) {
+        return address(this);
+    }
+}